@@ -0,0 +1,277 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import {
+  createVersionedEntity,
+  defineVersion,
+  entityReferenceAsync,
+  entityRefUptoVersionAsync,
+} from "../index.js"
+
+const v1_schema = z.object({
+  v: z.literal(1),
+  userId: z.string(),
+})
+
+const v2_schema = z.object({
+  v: z.literal(2),
+  userId: z.number(),
+})
+
+const v3_schema = z.object({
+  v: z.literal(3),
+  userId: z.number(),
+  tag: z.string(),
+})
+
+// Simulates a lookup in an external ID mapping table
+const lookupId = async (id: string) => {
+  await new Promise((resolve) => setTimeout(resolve, 1))
+  return parseInt(id, 10)
+}
+
+function createAsyncEntity() {
+  return createVersionedEntity({
+    latestVersion: 3,
+    versionMap: {
+      1: defineVersion({
+        initial: true,
+        schema: v1_schema,
+      }),
+      2: defineVersion({
+        initial: false,
+        schema: v2_schema,
+        async up(old: z.infer<typeof v1_schema>) {
+          return {
+            v: 2 as const,
+            userId: await lookupId(old.userId),
+          }
+        },
+      }),
+      3: defineVersion({
+        initial: false,
+        schema: v3_schema,
+        up(old: z.infer<typeof v2_schema>) {
+          return {
+            ...old,
+            v: 3 as const,
+            tag: "migrated",
+          }
+        },
+      }),
+    },
+    getVersion(data) {
+      return (data as any)?.v ?? null
+    },
+  })
+}
+
+describe("safeParseAsync", () => {
+  it("migrates entity with async up functions to the latest version", async () => {
+    const entity = createAsyncEntity()
+
+    expect(await entity.safeParseAsync({ v: 1, userId: "42" })).toEqual({
+      type: "ok",
+      value: { v: 3, userId: 42, tag: "migrated" },
+    })
+  })
+
+  it("returns 'GIVEN_VER_VALIDATION_FAIL' when an async up function returns invalid data", async () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({
+          initial: false,
+          schema: v2_schema,
+          async up() {
+            return { v: 2, userId: "not a number" } as any
+          },
+        }),
+      },
+      getVersion(data) {
+        return (data as any)?.v ?? null
+      },
+    })
+
+    expect(await entity.safeParseAsync({ v: 1, userId: "1" })).toEqual({
+      type: "err",
+      error: expect.objectContaining({
+        type: "GIVEN_VER_VALIDATION_FAIL",
+        version: 2,
+      }),
+    })
+  })
+
+  it("supports async refinements on the schemas", async () => {
+    const entity = createVersionedEntity({
+      latestVersion: 1,
+      versionMap: {
+        1: defineVersion({
+          initial: true,
+          schema: v1_schema.refine(async (data) => data.userId !== "banned"),
+        }),
+      },
+      getVersion(data) {
+        return (data as any)?.v ?? null
+      },
+    })
+
+    expect((await entity.safeParseAsync({ v: 1, userId: "1" })).type).toBe("ok")
+    expect((await entity.safeParseAsync({ v: 1, userId: "banned" })).type).toBe("err")
+  })
+
+  it("returns 'VER_CHECK_FAIL' when the version could not be determined", async () => {
+    const entity = createAsyncEntity()
+
+    expect(await entity.safeParseAsync({ userId: "1" })).toEqual({
+      type: "err",
+      error: { type: "VER_CHECK_FAIL" },
+    })
+  })
+
+  it("returns 'MIGRATION_THREW' when an async up function rejects", async () => {
+    const thrown = new Error("lookup failed")
+
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({
+          initial: false,
+          schema: v2_schema,
+          async up(): Promise<z.infer<typeof v2_schema>> {
+            throw thrown
+          },
+        }),
+      },
+      getVersion(data) {
+        return (data as any)?.v ?? null
+      },
+    })
+
+    expect(await entity.safeParseAsync({ v: 1, userId: "1" })).toEqual({
+      type: "err",
+      error: {
+        type: "MIGRATION_THREW",
+        fromVersion: 1,
+        toVersion: 2,
+        input: { v: 1, userId: "1" },
+        error: thrown,
+      },
+    })
+  })
+})
+
+describe("safeParseUpToVersionAsync", () => {
+  it("migrates only up to the given version", async () => {
+    const entity = createAsyncEntity()
+
+    expect(await entity.safeParseUpToVersionAsync({ v: 1, userId: "7" }, 2)).toEqual({
+      type: "ok",
+      value: { v: 2, userId: 7 },
+    })
+  })
+
+  it("returns 'INVALID_VER' when the data version is higher than requested", async () => {
+    const entity = createAsyncEntity()
+
+    expect(await entity.safeParseUpToVersionAsync({ v: 3, userId: 7, tag: "x" }, 2)).toEqual({
+      type: "err",
+      error: { type: "INVALID_VER" },
+    })
+  })
+})
+
+describe("sync parse of async migrations", () => {
+  it("returns 'BUG_ASYNC_MIGRATION_IN_SYNC_PARSE' from safeParse", () => {
+    const entity = createAsyncEntity()
+
+    expect(entity.safeParse({ v: 1, userId: "42" })).toEqual({
+      type: "err",
+      error: { type: "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE", ver: 2 },
+    })
+  })
+
+  it("leaves no unhandled rejection when the dropped migration rejects", async () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({
+          initial: false,
+          schema: v2_schema,
+          up: async (): Promise<z.infer<typeof v2_schema>> => {
+            throw new Error("lookup failed")
+          },
+        }),
+      },
+      getVersion: (data) => (data as any)?.v ?? null,
+    })
+
+    const unhandled: unknown[] = []
+    const onUnhandled = (reason: unknown) => unhandled.push(reason)
+
+    process.on("unhandledRejection", onUnhandled)
+
+    try {
+      expect(entity.safeParse({ v: 1, userId: "42" })).toEqual({
+        type: "err",
+        error: { type: "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE", ver: 2 },
+      })
+
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    } finally {
+      process.off("unhandledRejection", onUnhandled)
+    }
+
+    expect(unhandled).toEqual([])
+  })
+
+  it("does not affect data that does not hit the async migration", () => {
+    const entity = createAsyncEntity()
+
+    expect(entity.safeParse({ v: 2, userId: 42 })).toEqual({
+      type: "ok",
+      value: { v: 3, userId: 42, tag: "migrated" },
+    })
+  })
+})
+
+describe("entityReferenceAsync", () => {
+  it("migrates nested entities inside a Zod object schema", async () => {
+    const schema = z.object({
+      id: z.string(),
+      user: entityReferenceAsync(createAsyncEntity()),
+    })
+
+    expect(await schema.safeParseAsync({ id: "a", user: { v: 1, userId: "5" } })).toEqual({
+      success: true,
+      data: { id: "a", user: { v: 3, userId: 5, tag: "migrated" } },
+    })
+  })
+
+  it("fails the parent schema when the nested entity is invalid", async () => {
+    const schema = z.object({
+      user: entityReferenceAsync(createAsyncEntity()),
+    })
+
+    const result = await schema.safeParseAsync({ user: { v: 1, userId: 5 } })
+
+    expect(result.success).toBe(false)
+  })
+})
+
+describe("entityRefUptoVersionAsync", () => {
+  it("migrates nested entities only up to the given version", async () => {
+    const schema = z.object({
+      user: entityRefUptoVersionAsync(createAsyncEntity(), 2),
+    })
+
+    expect(await schema.safeParseAsync({ user: { v: 1, userId: "5" } })).toEqual({
+      success: true,
+      data: { user: { v: 2, userId: 5 } },
+    })
+
+    expect((await schema.safeParseAsync({ user: { v: 3, userId: 5, tag: "x" } })).success).toBe(false)
+  })
+})
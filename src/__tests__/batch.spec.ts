@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, summarizeBatchReport } from "../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), name: z.string() })
+const v2_schema = z.object({ v: z.literal(2), name: z.string(), tags: z.array(z.string()) })
+
+function createTestEntity() {
+  return createVersionedEntity({
+    latestVersion: 2,
+    versionMap: {
+      1: defineVersion({ initial: true, schema: v1_schema }),
+      2: defineVersion({
+        initial: false,
+        schema: v2_schema,
+        up(old: z.infer<typeof v1_schema>) {
+          return { ...old, v: 2 as const, tags: [] }
+        },
+      }),
+    },
+    getVersion(data) {
+      return (data as any)?.v ?? null
+    },
+  })
+}
+
+const items = [
+  { v: 1, name: "a" },
+  { v: 2, name: "b", tags: [] },
+  { v: 1, name: "c" },
+  { v: 2, name: 1, tags: [] },
+  { name: "no version" },
+  { v: 3, name: "future" },
+  { v: 1, name: 2 },
+]
+
+describe("safeParseMany", () => {
+  it("returns the result of each item in order", () => {
+    const entity = createTestEntity()
+
+    const { results } = entity.safeParseMany(items)
+
+    expect(results).toHaveLength(items.length)
+    expect(results[0]).toEqual({ type: "ok", value: { v: 2, name: "a", tags: [] } })
+    expect(results.map((result) => (result.type === "ok" ? "ok" : result.error.type))).toEqual([
+      "ok",
+      "ok",
+      "ok",
+      "GIVEN_VER_VALIDATION_FAIL",
+      "VER_CHECK_FAIL",
+      "INVALID_VER",
+      "GIVEN_VER_VALIDATION_FAIL",
+    ])
+  })
+
+  it("reports the aggregated counts of the batch", () => {
+    const { report } = createTestEntity().safeParseMany(items)
+
+    expect(report).toEqual({
+      total: 7,
+      succeeded: 3,
+      failed: 4,
+      migrated: 2,
+      alreadyLatest: 1,
+      bySourceVersion: { 1: 3, 2: 2, 3: 1 },
+      failures: {
+        GIVEN_VER_VALIDATION_FAIL: {
+          count: 2,
+          examples: [
+            { index: 3, error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL", version: 2 }) },
+            { index: 6, error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL", version: 1 }) },
+          ],
+        },
+        VER_CHECK_FAIL: { count: 1, examples: [{ index: 4, error: { type: "VER_CHECK_FAIL" } }] },
+        INVALID_VER: { count: 1, examples: [{ index: 5, error: { type: "INVALID_VER" } }] },
+      },
+    })
+  })
+
+  it("limits the examples kept per error type", () => {
+    const { report } = createTestEntity().safeParseMany(items, { maxExamples: 1 })
+
+    expect(report.failures.GIVEN_VER_VALIDATION_FAIL?.count).toBe(2)
+    expect(report.failures.GIVEN_VER_VALIDATION_FAIL?.examples).toHaveLength(1)
+  })
+
+  it("accepts any iterable", () => {
+    function* generate() {
+      yield { v: 1, name: "a" }
+      yield { v: 1, name: "b" }
+    }
+
+    expect(createTestEntity().safeParseMany(generate()).report.migrated).toBe(2)
+  })
+})
+
+describe("safeParseManyAsync", () => {
+  it("returns the same results and report as safeParseMany", async () => {
+    const entity = createTestEntity()
+
+    const asyncResult = await entity.safeParseManyAsync(items)
+    const syncResult = entity.safeParseMany(items)
+
+    expect(asyncResult.results.map((result) => result.type)).toEqual(syncResult.results.map((result) => result.type))
+    expect(summarizeBatchReport(asyncResult.report)).toEqual(summarizeBatchReport(syncResult.report))
+  })
+})
+
+describe("summarizeBatchReport", () => {
+  it("renders the report into a single line", () => {
+    const { report } = createTestEntity().safeParseMany(items)
+
+    expect(summarizeBatchReport(report)).toBe(
+      "7 items: 3 ok (2 migrated, 1 already latest), 4 failed (GIVEN_VER_VALIDATION_FAIL: 2, VER_CHECK_FAIL: 1, INVALID_VER: 1)"
+    )
+  })
+
+  it("omits the failure breakdown when nothing failed", () => {
+    const { report } = createTestEntity().safeParseMany([{ v: 1, name: "a" }])
+
+    expect(summarizeBatchReport(report)).toBe("1 items: 1 ok (1 migrated, 0 already latest), 0 failed")
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, expect, it, vi } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, entityReference, versionField } from "../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), name: z.string() })
+const v2_schema = z.object({ v: z.literal(2), title: z.string() })
+
+function createTestEntity(cache: boolean) {
+  const up = vi.fn((old: z.infer<typeof v1_schema>): z.infer<typeof v2_schema> => ({ v: 2, title: old.name }))
+  const schema = v1_schema.refine(() => true)
+  const validate = vi.spyOn(schema, "safeParse")
+
+  const entity = createVersionedEntity({
+    latestVersion: 2,
+    versionMap: {
+      1: defineVersion({ initial: true, schema }),
+      2: defineVersion({ initial: false, schema: v2_schema, up }),
+    },
+    getVersion: versionField("v"),
+    cache,
+  })
+
+  return { entity, up, validate }
+}
+
+describe("parse cache", () => {
+  it("reuses the validation and migration results of the same object", () => {
+    const { entity, up, validate } = createTestEntity(true)
+
+    const data = { v: 1, name: "a" }
+
+    expect(entity.is(data)).toBe(true)
+    expect(entity.safeParse(data)).toEqual({ type: "ok", value: { v: 2, title: "a" } })
+    expect(z.object({ env: entityReference(entity) }).parse({ env: data })).toEqual({ env: { v: 2, title: "a" } })
+
+    expect(validate).toHaveBeenCalledTimes(1)
+    expect(up).toHaveBeenCalledTimes(1)
+    expect(entity.cacheStats).toEqual({ hits: 2, misses: 2 })
+  })
+
+  it("does not cache when not enabled", () => {
+    const { entity, up, validate } = createTestEntity(false)
+
+    const data = { v: 1, name: "a" }
+
+    entity.is(data)
+    entity.safeParse(data)
+    entity.safeParse(data)
+
+    expect(validate).toHaveBeenCalledTimes(3)
+    expect(up).toHaveBeenCalledTimes(2)
+    expect(entity.cacheStats).toEqual({ hits: 0, misses: 0 })
+  })
+
+  it("keys the results by object identity and by target version", () => {
+    const { entity, up } = createTestEntity(true)
+
+    entity.safeParse({ v: 1, name: "a" })
+    entity.safeParse({ v: 1, name: "a" })
+
+    expect(up).toHaveBeenCalledTimes(2)
+
+    const data = { v: 1, name: "a" }
+
+    expect(entity.safeParseUpToVersion(data, 1)).toEqual({ type: "ok", value: data })
+    expect(entity.safeParse(data)).toEqual({ type: "ok", value: { v: 2, title: "a" } })
+  })
+
+  it("shares the results between the sync and async parse functions", async () => {
+    const { entity, up } = createTestEntity(true)
+
+    const data = { v: 1, name: "a" }
+
+    entity.safeParse(data)
+
+    expect(await entity.safeParseAsync(data)).toEqual({ type: "ok", value: { v: 2, title: "a" } })
+    expect(up).toHaveBeenCalledTimes(1)
+  })
+
+  it("revalidates invalidated objects", () => {
+    const { entity, validate } = createTestEntity(true)
+
+    const data = { v: 1, name: "a" }
+    const other = { v: 1, name: "b" }
+
+    entity.is(data)
+    entity.is(other)
+
+    data.name = 1 as any
+    entity.invalidateCache(data)
+
+    expect(entity.is(data)).toBe(false)
+    expect(entity.is(other)).toBe(true)
+    expect(validate).toHaveBeenCalledTimes(3)
+
+    entity.invalidateCache()
+    entity.is(other)
+
+    expect(validate).toHaveBeenCalledTimes(4)
+  })
+
+  it("does not cache traced migrations and primitive inputs", () => {
+    const { entity, up } = createTestEntity(true)
+
+    const data = { v: 1, name: "a" }
+
+    entity.safeParse(data)
+    expect(entity.explain(data).steps).toHaveLength(1)
+    expect(up).toHaveBeenCalledTimes(2)
+
+    entity.safeParse("a")
+    entity.safeParse("a")
+
+    expect(entity.cacheStats.misses).toBe(2)
+  })
+})
@@ -0,0 +1,191 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { fileURLToPath } from "node:url"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+import { runCli } from "../cli.js"
+
+const entitiesModule = fileURLToPath(new URL("./fixtures/cli/entities.ts", import.meta.url))
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "verzod-cli-"))
+
+  await writeFile(join(dir, "v1.json"), JSON.stringify({ v: 1, name: "a" }))
+  await writeFile(join(dir, "v3.json"), JSON.stringify({ v: 3, title: "b", tags: [] }))
+  await writeFile(join(dir, "invalid.json"), JSON.stringify({ v: 2, name: "c", tags: [1] }))
+  await writeFile(join(dir, "broken.json"), "{ not json")
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+async function run(...args: string[]) {
+  const stdout: string[] = []
+  const stderr: string[] = []
+
+  const exitCode = await runCli(args, {
+    cwd: dir,
+    stdout: (line) => stdout.push(line),
+    stderr: (line) => stderr.push(line),
+  })
+
+  return { exitCode, stdout, stderr }
+}
+
+describe("verzod check", () => {
+  it("reports the detected version of valid files", async () => {
+    const result = await run("check", "--entity", `${entitiesModule}#Document`, "v1.json", "v3.json")
+
+    expect(result).toEqual({
+      exitCode: 0,
+      stdout: ["v1.json: ok (v1)", "v3.json: ok (v3, latest)"],
+      stderr: [],
+    })
+  })
+
+  it("exits with 1 and prints the Zod issues of invalid files", async () => {
+    const result = await run("check", "--entity", `${entitiesModule}#Document`, "v1.json", "invalid.json")
+
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr).toEqual([
+      "invalid.json: invalid (v2), the data does not match the schema of version 2 (tags.0: Expected string, received number)",
+      "  - tags.0: Expected string, received number",
+    ])
+  })
+
+  it("reports files that are not valid JSON", async () => {
+    const result = await run("check", "--entity", entitiesModule, "broken.json")
+
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr[0]).toMatch(/^broken\.json: could not read JSON/)
+  })
+
+  it("uses the default export when no export name is given", async () => {
+    expect((await run("check", "--entity", entitiesModule, "v3.json")).exitCode).toBe(0)
+  })
+})
+
+describe("verzod migrate", () => {
+  it("reports what would be migrated without --write", async () => {
+    const result = await run("migrate", "--entity", entitiesModule, "v1.json", "v3.json")
+
+    expect(result).toEqual({
+      exitCode: 0,
+      stdout: [
+        "v1.json: would migrate v1 -> v3 (use --write to rewrite the file)",
+        "v3.json: already v3",
+      ],
+      stderr: [],
+    })
+
+    expect(JSON.parse(await readFile(join(dir, "v1.json"), "utf-8"))).toEqual({ v: 1, name: "a" })
+  })
+
+  it("rewrites the files with --write", async () => {
+    const result = await run("migrate", "--entity", entitiesModule, "--write", "v1.json")
+
+    expect(result.stdout).toEqual(["v1.json: migrated v1 -> v3"])
+    expect(JSON.parse(await readFile(join(dir, "v1.json"), "utf-8"))).toEqual({ v: 3, title: "a", tags: [] })
+  })
+
+  it("migrates up to the version given with --to", async () => {
+    await run("migrate", "--entity", entitiesModule, "--write", "--to", "2", "v1.json")
+
+    expect(JSON.parse(await readFile(join(dir, "v1.json"), "utf-8"))).toEqual({ v: 2, name: "a", tags: [] })
+  })
+
+  it("migrates files of entities with async migrations", async () => {
+    const result = await run("migrate", "--entity", `${entitiesModule}#AsyncDocument`, "--write", "v1.json")
+
+    expect(result).toEqual({ exitCode: 0, stdout: ["v1.json: migrated v1 -> v2"], stderr: [] })
+    expect(JSON.parse(await readFile(join(dir, "v1.json"), "utf-8"))).toEqual({ v: 2, name: "a", tags: ["imported"] })
+  })
+
+  it("exits with 1 when a file fails to migrate", async () => {
+    const result = await run("migrate", "--entity", entitiesModule, "--write", "v1.json", "invalid.json")
+
+    expect(result.exitCode).toBe(1)
+    expect(result.stdout).toEqual(["v1.json: migrated v1 -> v3"])
+    expect(result.stderr[0]).toBe(
+      "invalid.json: failed (v2), the data does not match the schema of version 2 (tags.0: Expected string, received number)"
+    )
+  })
+
+  it("prints the versions and the message of a migration that threw", async () => {
+    await writeFile(join(dir, "unnamed.json"), JSON.stringify({ v: 1, name: "" }))
+
+    const result = await run("migrate", "--entity", entitiesModule, "unnamed.json")
+
+    expect(result.exitCode).toBe(1)
+    expect(result.stderr).toEqual([
+      "unnamed.json: failed (v1), the migration from version 1 to version 2 threw an error (the name is empty)",
+    ])
+  })
+})
+
+describe("verzod scaffold", () => {
+  it("prints a defineVersion block migrating the latest version to the given schema", async () => {
+    const result = await run("scaffold", "--entity", entitiesModule, "--schema", `${entitiesModule}#Document_V4`)
+
+    expect(result.exitCode).toBe(0)
+    expect(result.stdout.join("\n")).toBe(
+      [
+        "4: defineVersion({",
+        "  initial: false,",
+        "  schema: Document_V4,",
+        "  up(old: z.infer<typeof v3_schema>): z.infer<typeof Document_V4> {",
+        "    return {",
+        "      v: 4,",
+        "      title: old.title,",
+        "      tags: old.tags,",
+        "      archived: false,",
+        "    }",
+        "  },",
+        "}),",
+      ].join("\n")
+    )
+  })
+
+  it("exits with 2 when the schema is missing or not a Zod schema", async () => {
+    expect((await run("scaffold", "--entity", entitiesModule)).exitCode).toBe(2)
+
+    const result = await run("scaffold", "--entity", entitiesModule, "--schema", `${entitiesModule}#notAnEntity`)
+
+    expect(result.exitCode).toBe(2)
+    expect(result.stderr[0]).toContain("is not a Zod schema")
+  })
+})
+
+describe("usage errors", () => {
+  it("exits with 2 for an unknown command", async () => {
+    const result = await run("convert", "--entity", entitiesModule, "v1.json")
+
+    expect(result.exitCode).toBe(2)
+    expect(result.stderr[0]).toBe('Unknown command "convert"')
+  })
+
+  it("exits with 2 when the entity is missing", async () => {
+    expect((await run("check", "v1.json")).exitCode).toBe(2)
+  })
+
+  it("exits with 2 when the entity module cannot be loaded", async () => {
+    const result = await run("check", "--entity", "./missing.js#Document", "v1.json")
+
+    expect(result.exitCode).toBe(2)
+    expect(result.stderr[0]).toMatch(/^Could not load "\.\/missing\.js": /)
+  })
+
+  it("exits with 2 when the export is not an entity", async () => {
+    const result = await run("check", "--entity", `${entitiesModule}#notAnEntity`, "v1.json")
+
+    expect(result.exitCode).toBe(2)
+    expect(result.stderr[0]).toContain("is not a versioned entity")
+  })
+
+  it("exits with 2 for unknown options", async () => {
+    expect((await run("check", "--entity", entitiesModule, "--force", "v1.json")).exitCode).toBe(2)
+  })
+})
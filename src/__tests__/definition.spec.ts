@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, VerzodDefinitionError } from "../index.js"
+
+const schema = z.object({ v: z.number() })
+
+const initialVersion = defineVersion({ initial: true, schema })
+
+const nextVersion = defineVersion({
+  initial: false,
+  schema,
+  up(old: z.infer<typeof schema>) {
+    return old
+  },
+})
+
+const getVersion = (data: unknown) => (data as any)?.v ?? null
+
+describe("validateDefinition", () => {
+  it("returns no diagnostics for a valid definition", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 3,
+      versionMap: { 1: initialVersion, 2: nextVersion, 3: nextVersion },
+      getVersion,
+    })
+
+    expect(entity.validateDefinition()).toEqual([])
+  })
+
+  it("reports missing intermediate versions", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 4,
+      versionMap: { 1: initialVersion, 4: nextVersion },
+      getVersion,
+    })
+
+    expect(entity.validateDefinition()).toEqual([
+      expect.objectContaining({ type: "MISSING_VER", missingVer: 2 }),
+      expect.objectContaining({ type: "MISSING_VER", missingVer: 3 }),
+    ])
+  })
+
+  it("reports when the latest version is not in the version map", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: { 1: initialVersion } as any,
+      getVersion,
+    })
+
+    expect(entity.validateDefinition()).toEqual([
+      expect.objectContaining({ type: "LATEST_VER_MISSING", latestVersion: 2 }),
+    ])
+  })
+
+  it("reports versions above the latest version", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 1,
+      versionMap: { 1: initialVersion, 2: nextVersion },
+      getVersion,
+    })
+
+    expect(entity.validateDefinition()).toEqual([
+      expect.objectContaining({ type: "VER_ABOVE_LATEST", ver: 2 }),
+    ])
+  })
+
+  it("reports when the lowest version is not initial and intermediate versions are initial", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 3,
+      versionMap: { 1: nextVersion, 2: initialVersion, 3: nextVersion },
+      getVersion,
+    })
+
+    expect(entity.validateDefinition()).toEqual([
+      expect.objectContaining({ type: "LOWEST_VER_NOT_INITIAL", ver: 1 }),
+      expect.objectContaining({ type: "INTERMEDIATE_MARKED_INITIAL", ver: 2 }),
+    ])
+  })
+
+  it("reports non integer version map keys", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 1,
+      versionMap: { 1: initialVersion, 1.5: nextVersion },
+      getVersion,
+    })
+
+    expect(entity.validateDefinition()).toEqual([
+      expect.objectContaining({ type: "NON_INTEGER_VER", key: "1.5" }),
+    ])
+  })
+})
+
+describe("createVersionedEntity with strict", () => {
+  it("does not throw for a valid definition", () => {
+    expect(() =>
+      createVersionedEntity({
+        latestVersion: 2,
+        versionMap: { 1: initialVersion, 2: nextVersion },
+        getVersion,
+        strict: true,
+      })
+    ).not.toThrow()
+  })
+
+  it("throws a VerzodDefinitionError listing all the problems", () => {
+    let error: unknown
+
+    try {
+      createVersionedEntity({
+        latestVersion: 3,
+        versionMap: { 1: initialVersion, 3: initialVersion },
+        getVersion,
+        strict: true,
+      })
+    } catch (e) {
+      error = e
+    }
+
+    expect(error).toBeInstanceOf(VerzodDefinitionError)
+    expect((error as VerzodDefinitionError).diagnostics).toEqual([
+      expect.objectContaining({ type: "MISSING_VER", missingVer: 2 }),
+      expect.objectContaining({ type: "INTERMEDIATE_MARKED_INITIAL", ver: 3 }),
+    ])
+    expect((error as VerzodDefinitionError).message).toContain("Version 2 is missing")
+  })
+
+  it("does not validate the definition when not strict", () => {
+    expect(() =>
+      createVersionedEntity({
+        latestVersion: 3,
+        versionMap: { 1: initialVersion, 3: initialVersion },
+        getVersion,
+      })
+    ).not.toThrow()
+  })
+})
@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion } from "../index.js"
+
+const v1_schema = z.object({
+  v: z.literal(1),
+  name: z.string(),
+})
+
+const v2_schema = z.object({
+  v: z.literal(2),
+  firstName: z.string(),
+  lastName: z.string(),
+})
+
+const v3_schema = z.object({
+  v: z.literal(3),
+  firstName: z.string(),
+  lastName: z.string(),
+  email: z.string().optional(),
+})
+
+type V1 = z.infer<typeof v1_schema>
+type V2 = z.infer<typeof v2_schema>
+type V3 = z.infer<typeof v3_schema>
+
+function createTestEntity() {
+  return createVersionedEntity({
+    latestVersion: 3,
+    versionMap: {
+      1: defineVersion({
+        initial: true,
+        schema: v1_schema,
+      }),
+      2: defineVersion({
+        initial: false,
+        schema: v2_schema,
+        up(old: V1): V2 {
+          const [firstName, lastName = ""] = old.name.split(" ")
+          return { v: 2, firstName, lastName }
+        },
+        down(newer): V1 {
+          return { v: 1, name: `${newer.firstName} ${newer.lastName}` }
+        },
+      }),
+      3: defineVersion({
+        initial: false,
+        schema: v3_schema,
+        up(old: V2): V3 {
+          return { ...old, v: 3 }
+        },
+        down(newer): V2 {
+          return { v: 2, firstName: newer.firstName, lastName: newer.lastName }
+        },
+      }),
+    },
+    getVersion(data) {
+      return (data as any)?.v ?? null
+    },
+  })
+}
+
+describe("safeParseToVersion", () => {
+  it("migrates newer data down to the requested version", () => {
+    const entity = createTestEntity()
+
+    expect(
+      entity.safeParseToVersion({ v: 3, firstName: "Jane", lastName: "Doe", email: "jane@doe.com" }, 1)
+    ).toEqual({
+      type: "ok",
+      value: { v: 1, name: "Jane Doe" },
+    })
+  })
+
+  it("migrates older data up to the requested version", () => {
+    const entity = createTestEntity()
+
+    expect(entity.safeParseToVersion({ v: 1, name: "Jane Doe" }, 2)).toEqual({
+      type: "ok",
+      value: { v: 2, firstName: "Jane", lastName: "Doe" },
+    })
+  })
+
+  it("returns data unchanged when already at target version", () => {
+    const entity = createTestEntity()
+
+    const data = { v: 2, firstName: "Jane", lastName: "Doe" }
+
+    expect(entity.safeParseToVersion(data, 2)).toEqual({ type: "ok", value: data })
+  })
+
+  it("returns 'NO_DOWN_MIGRATION' when a version in the path has no down function", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 3,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({
+          initial: false,
+          schema: v2_schema,
+          up(old: V1): V2 {
+            return { v: 2, firstName: old.name, lastName: "" }
+          },
+          down(newer): V1 {
+            return { v: 1, name: newer.firstName }
+          },
+        }),
+        3: defineVersion({
+          initial: false,
+          schema: v3_schema,
+          up(old: V2): V3 {
+            return { ...old, v: 3 }
+          },
+        }),
+      },
+      getVersion(data) {
+        return (data as any)?.v ?? null
+      },
+    })
+
+    expect(entity.safeParseToVersion({ v: 3, firstName: "Jane", lastName: "Doe" }, 1)).toEqual({
+      type: "err",
+      error: { type: "NO_DOWN_MIGRATION", ver: 3 },
+    })
+  })
+
+  it("returns 'GIVEN_VER_VALIDATION_FAIL' when a down function returns invalid data", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({
+          initial: false,
+          schema: v2_schema,
+          up(old: V1): V2 {
+            return { v: 2, firstName: old.name, lastName: "" }
+          },
+          down() {
+            return { v: 1 } as any
+          },
+        }),
+      },
+      getVersion(data) {
+        return (data as any)?.v ?? null
+      },
+    })
+
+    expect(entity.safeParseToVersion({ v: 2, firstName: "Jane", lastName: "Doe" }, 1)).toEqual({
+      type: "err",
+      error: expect.objectContaining({
+        type: "GIVEN_VER_VALIDATION_FAIL",
+        version: 1,
+      }),
+    })
+  })
+
+  it("returns 'INVALID_VER' when the version is not in the version map", () => {
+    const entity = createTestEntity()
+
+    expect(entity.safeParseToVersion({ v: 4 }, 1)).toEqual({
+      type: "err",
+      error: { type: "INVALID_VER" },
+    })
+  })
+})
+
+describe("safeParseToVersionAsync", () => {
+  it("awaits async down functions", async () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({
+          initial: false,
+          schema: v2_schema,
+          up(old: V1): V2 {
+            return { v: 2, firstName: old.name, lastName: "" }
+          },
+          async down(newer): Promise<V1> {
+            return { v: 1, name: newer.firstName }
+          },
+        }),
+      },
+      getVersion(data) {
+        return (data as any)?.v ?? null
+      },
+    })
+
+    expect(await entity.safeParseToVersionAsync({ v: 2, firstName: "Jane", lastName: "Doe" }, 1)).toEqual({
+      type: "ok",
+      value: { v: 1, name: "Jane" },
+    })
+
+    expect(entity.safeParseToVersion({ v: 2, firstName: "Jane", lastName: "Doe" }, 1)).toEqual({
+      type: "err",
+      error: { type: "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE", ver: 2 },
+    })
+  })
+})
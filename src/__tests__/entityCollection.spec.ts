@@ -0,0 +1,104 @@
+import { describe, expect, expectTypeOf, it } from "vitest"
+import { z } from "zod"
+import {
+  createVersionedEntity,
+  defineVersion,
+  entityArray,
+  entityArrayAsync,
+  entityRecord,
+  entityRecordAsync,
+  type RejectedEntity,
+} from "../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), name: z.string() })
+const v2_schema = z.object({ v: z.literal(2), title: z.string() })
+
+const Request = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      up(old: z.infer<typeof v1_schema>) {
+        return { v: 2 as const, title: old.name }
+      },
+    }),
+  },
+  getVersion: (data) => (data as any)?.v ?? null,
+})
+
+const items = [{ v: 1, name: "a" }, { v: 9 }, { v: 2, title: "b" }, { v: 2, title: 3 }]
+
+describe("entityArray", () => {
+  it("fails the array on invalid items by default, reporting them at their index", () => {
+    const result = z.object({ requests: entityArray(Request) }).safeParse({ requests: items })
+
+    expect(result.success).toBe(false)
+    expect(result.success ? [] : result.error.issues.map((issue) => issue.path)).toEqual([
+      ["requests", 1],
+      ["requests", 3, "title"],
+    ])
+  })
+
+  it("drops the invalid items", () => {
+    expect(entityArray(Request, { onInvalid: "drop" }).parse(items)).toEqual([
+      { v: 2, title: "a" },
+      { v: 2, title: "b" },
+    ])
+  })
+
+  it("collects the invalid items with their index and error", () => {
+    const result = entityArray(Request, { onInvalid: "collect" }).parse(items)
+
+    expect(result).toEqual({
+      items: [
+        { v: 2, title: "a" },
+        { v: 2, title: "b" },
+      ],
+      rejected: [
+        { index: 1, data: { v: 9 }, error: { type: "INVALID_VER" } },
+        { index: 3, data: { v: 2, title: 3 }, error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL" }) },
+      ],
+    })
+
+    expectTypeOf(result.items).toEqualTypeOf<z.infer<typeof v2_schema>[]>()
+    expectTypeOf(result.rejected).toEqualTypeOf<RejectedEntity<number>[]>()
+  })
+
+  it("still fails on data that is not an array", () => {
+    expect(entityArray(Request, { onInvalid: "drop" }).safeParse({}).success).toBe(false)
+  })
+
+  it("parses the items with safeParseAsync in the async variant", async () => {
+    expect(await entityArrayAsync(Request, { onInvalid: "drop" }).parseAsync(items)).toEqual([
+      { v: 2, title: "a" },
+      { v: 2, title: "b" },
+    ])
+  })
+})
+
+describe("entityRecord", () => {
+  const record = { a: { v: 1, name: "a" }, b: { v: 9 } }
+
+  it("fails the record on invalid values by default, reporting them at their key", () => {
+    const result = entityRecord(Request).safeParse(record)
+
+    expect(result.success ? [] : result.error.issues.map((issue) => issue.path)).toEqual([["b"]])
+  })
+
+  it("drops the invalid values", () => {
+    const result = entityRecord(Request, { onInvalid: "drop" }).parse(record)
+
+    expect(result).toEqual({ a: { v: 2, title: "a" } })
+
+    expectTypeOf(result).toEqualTypeOf<Record<string, z.infer<typeof v2_schema>>>()
+  })
+
+  it("collects the invalid values with their key and error", async () => {
+    expect(await entityRecordAsync(Request, { onInvalid: "collect" }).parseAsync(record)).toEqual({
+      items: { a: { v: 2, title: "a" } },
+      rejected: [{ index: "b", data: { v: 9 }, error: { type: "INVALID_VER" } }],
+    })
+  })
+})
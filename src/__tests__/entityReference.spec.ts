@@ -1,9 +1,10 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { z } from "zod";
 import {
   createVersionedEntity,
   defineVersion,
   entityReference,
+  entityRefUptoVersion,
 } from "../index.js";
 
 const v1_schema = z.object({
@@ -191,6 +192,90 @@ describe("entityReference", () => {
       ],
     });
   });
+
+  it("should validate the entity only once", () => {
+    const safeParse = vi.spyOn(v1_schema, "safeParse");
+
+    try {
+      const result = connectedSchema.safeParse({
+        v: 1,
+        testEntity: { v: 1, name: "test", variables: [] },
+      });
+
+      expect(result.success).toEqual(true);
+      expect(safeParse).toHaveBeenCalledTimes(1);
+    } finally {
+      safeParse.mockRestore();
+    }
+  });
+
+  it("should forward the issues of invalid entities with their paths prefixed", () => {
+    const result = connectedSchema.safeParse({
+      v: 1,
+      testEntity: { v: 1, name: "test", variables: [{ name: "a", value: 1 }] },
+    });
+
+    expect(result.success).toEqual(false);
+
+    if (result.success) throw new Error("this should not be called");
+
+    expect(result.error.issues).toEqual([
+      expect.objectContaining({
+        code: "invalid_type",
+        path: ["testEntity", "variables", 0, "value"],
+        message: "Expected string, received number",
+      }),
+    ]);
+  });
+
+  it("should report entities whose version cannot be determined with a distinct code", () => {
+    const result = connectedSchema.safeParse({ v: 1, testEntity: { name: "test" } });
+
+    expect(!result.success && result.error.issues).toEqual([
+      expect.objectContaining({
+        code: "custom",
+        path: ["testEntity"],
+        message: "Could not determine the version of the data",
+        params: { code: "VER_CHECK_FAIL", version: null },
+      }),
+    ]);
+  });
+
+  it("should report entities with an invalid version with a distinct code", () => {
+    const result = connectedSchema.safeParse({ v: 1, testEntity: { v: 5, name: "test" } });
+
+    expect(!result.success && result.error.issues).toEqual([
+      expect.objectContaining({
+        code: "custom",
+        path: ["testEntity"],
+        params: { code: "INVALID_VER", version: 5 },
+      }),
+    ]);
+  });
+});
+
+describe("entityRefUptoVersion", () => {
+  const boundedSchema = z.object({ testEntity: entityRefUptoVersion(testEntity, 1) });
+
+  it("should not migrate beyond the given version", () => {
+    const result = boundedSchema.safeParse({
+      testEntity: { v: 1, name: "test", variables: [] },
+    });
+
+    expect(result.success && result.data.testEntity).toEqual({ v: 1, name: "test", variables: [] });
+  });
+
+  it("should report newer versions as issues instead of throwing", () => {
+    const result = boundedSchema.safeParse({
+      testEntity: { v: 2, name: "test", variables: [] },
+    });
+
+    expect(result.success).toEqual(false);
+    expect(!result.success && result.error.issues[0]).toMatchObject({
+      path: ["testEntity"],
+      params: { code: "INVALID_VER", version: 2 },
+    });
+  });
 });
 
 const migrate_child_v1 = z.object({ v: z.literal(1), a: z.number() });
@@ -277,4 +362,17 @@ describe("nested entityReference", () => {
       expect(result.data).toEqual({ v: 2, d: 4, child: { v: 2, b: 8 } });
     }
   });
+
+  it("nested failures should be reported at the path of the nested field", () => {
+    const result = migrateParentSchema.safeParse({
+      v: 1,
+      c: 4,
+      child: {
+        v: 1,
+        a: "8",
+      },
+    });
+
+    expect(!result.success && result.error.issues.map((issue) => issue.path)).toEqual([["child", "a"]]);
+  });
 });
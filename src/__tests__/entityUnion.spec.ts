@@ -0,0 +1,122 @@
+import { describe, expect, expectTypeOf, it } from "vitest"
+import { z } from "zod"
+import {
+  createVersionedEntity,
+  defineVersion,
+  entityUnion,
+  entityUnionAsync,
+  InferredEntity,
+  versionField,
+} from "../index.js"
+
+const rest_v1 = z.object({ type: z.literal("rest"), v: z.literal(1), url: z.string() })
+const rest_v2 = z.object({ type: z.literal("rest"), v: z.literal(2), endpoint: z.string(), method: z.string() })
+
+const RestRequest = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: rest_v1 }),
+    2: defineVersion({
+      initial: false,
+      schema: rest_v2,
+      up(old: z.infer<typeof rest_v1>): z.infer<typeof rest_v2> {
+        return { type: "rest", v: 2, endpoint: old.url, method: "GET" }
+      },
+    }),
+  },
+  getVersion: versionField("v"),
+})
+
+const gql_v1 = z.object({ type: z.literal("graphql"), v: z.literal(1), query: z.string() })
+
+const GQLRequest = createVersionedEntity({
+  latestVersion: 1,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: gql_v1 }),
+  },
+  getVersion: versionField("v"),
+})
+
+describe("entityUnion", () => {
+  const schema = z.object({
+    request: entityUnion([RestRequest, GQLRequest], { discriminator: "type" }),
+  })
+
+  it("parses the data as the entity matching the discriminator and migrates it", () => {
+    expect(schema.parse({ request: { type: "rest", v: 1, url: "/a" } })).toEqual({
+      request: { type: "rest", v: 2, endpoint: "/a", method: "GET" },
+    })
+    expect(schema.parse({ request: { type: "graphql", v: 1, query: "{ a }" } })).toEqual({
+      request: { type: "graphql", v: 1, query: "{ a }" },
+    })
+  })
+
+  it("reports an issue when no entity matches the discriminator", () => {
+    const result = schema.safeParse({ request: { type: "soap", v: 1 } })
+
+    expect(result.success).toBe(false)
+    expect(!result.success && result.error.issues).toEqual([
+      expect.objectContaining({ path: ["request", "type"], message: 'No entity matches the discriminator "type"' }),
+    ])
+  })
+
+  it("forwards the issues of the matching entity when the data is invalid", () => {
+    const result = schema.safeParse({ request: { type: "rest", v: 2, endpoint: "/a" } })
+
+    expect(result.success).toBe(false)
+    expect(!result.success && result.error.issues).toEqual([
+      expect.objectContaining({ path: ["request", "method"], message: "Required" }),
+    ])
+  })
+
+  it("uses the first entity the data parses as without a discriminator", () => {
+    const union = entityUnion([RestRequest, GQLRequest])
+
+    expect(union.parse({ type: "graphql", v: 1, query: "{ a }" })).toEqual({ type: "graphql", v: 1, query: "{ a }" })
+    expect(union.safeParse({ v: 1 }).success).toBe(false)
+  })
+
+  it("validates the matching entity once without a discriminator", () => {
+    let validations = 0
+
+    const Counted = createVersionedEntity({
+      latestVersion: 1,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: gql_v1.refine(() => ++validations > 0) }),
+      },
+      getVersion: versionField("v"),
+    })
+
+    entityUnion([RestRequest, Counted]).parse({ type: "graphql", v: 1, query: "{ a }" })
+
+    expect(validations).toBe(1)
+  })
+
+  it("forwards the issues of the entity the data got the furthest with without a discriminator", () => {
+    const result = entityUnion([GQLRequest, RestRequest]).safeParse({ type: "rest", v: 2, endpoint: "/a" })
+
+    expect(!result.success && result.error.issues).toEqual([
+      expect.objectContaining({ path: ["method"], message: "Required" }),
+    ])
+  })
+
+  it("infers the union of the latest types of the entities", () => {
+    expectTypeOf<z.infer<typeof schema>["request"]>().toEqualTypeOf<
+      InferredEntity<typeof RestRequest> | InferredEntity<typeof GQLRequest>
+    >()
+  })
+})
+
+describe("entityUnionAsync", () => {
+  it("parses the data with the async parse functions", async () => {
+    const schema = entityUnionAsync([RestRequest, GQLRequest], { discriminator: "type" })
+
+    expect(await schema.parseAsync({ type: "rest", v: 1, url: "/a" })).toEqual({
+      type: "rest",
+      v: 2,
+      endpoint: "/a",
+      method: "GET",
+    })
+    expect((await schema.safeParseAsync({ type: "soap" })).success).toBe(false)
+  })
+})
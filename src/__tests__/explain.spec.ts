@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, diffValues } from "../index.js"
+
+const v1_schema = z.object({
+  v: z.literal(1),
+  name: z.string(),
+  variables: z.array(z.object({ key: z.string(), value: z.string() })),
+})
+
+const v2_schema = z.object({
+  v: z.literal(2),
+  name: z.string(),
+  variables: z.array(z.object({ key: z.string(), value: z.string(), masked: z.boolean() })),
+})
+
+const v3_schema = z.object({
+  v: z.literal(3),
+  title: z.string(),
+  variables: z.array(z.object({ key: z.string(), value: z.string(), masked: z.boolean() })),
+})
+
+function createTestEntity() {
+  return createVersionedEntity({
+    latestVersion: 3,
+    versionMap: {
+      1: defineVersion({ initial: true, schema: v1_schema }),
+      2: defineVersion({
+        initial: false,
+        schema: v2_schema,
+        up(old: z.infer<typeof v1_schema>): z.infer<typeof v2_schema> {
+          return {
+            ...old,
+            v: 2,
+            variables: old.variables.map((v) => ({ ...v, masked: false })),
+          }
+        },
+      }),
+      3: defineVersion({
+        initial: false,
+        schema: v3_schema,
+        up(old: z.infer<typeof v2_schema>): z.infer<typeof v3_schema> {
+          return { v: 3, title: old.name, variables: old.variables }
+        },
+      }),
+    },
+    getVersion(data) {
+      return (data as any)?.v ?? null
+    },
+  })
+}
+
+describe("explain", () => {
+  it("records every migration step with its changes", () => {
+    const entity = createTestEntity()
+
+    const data = { v: 1, name: "env", variables: [{ key: "a", value: "b" }] }
+
+    const trace = entity.explain(data)
+
+    expect(trace.sourceVersion).toBe(1)
+    expect(trace.targetVersion).toBe(3)
+    expect(trace.result).toEqual(entity.safeParse(data))
+
+    expect(trace.steps).toEqual([
+      {
+        fromVersion: 1,
+        toVersion: 2,
+        shortcut: false,
+        input: data,
+        output: { v: 2, name: "env", variables: [{ key: "a", value: "b", masked: false }] },
+        changes: [
+          { type: "changed", path: ["v"], before: 1, after: 2 },
+          { type: "added", path: ["variables", 0, "masked"], after: false },
+        ],
+      },
+      {
+        fromVersion: 2,
+        toVersion: 3,
+        shortcut: false,
+        input: { v: 2, name: "env", variables: [{ key: "a", value: "b", masked: false }] },
+        output: { v: 3, title: "env", variables: [{ key: "a", value: "b", masked: false }] },
+        changes: [
+          { type: "changed", path: ["v"], before: 2, after: 3 },
+          { type: "removed", path: ["name"], before: "env" },
+          { type: "added", path: ["title"], after: "env" },
+        ],
+      },
+    ])
+  })
+
+  it("records no steps for data already on the latest version", () => {
+    const entity = createTestEntity()
+
+    const trace = entity.explain({ v: 3, title: "env", variables: [] })
+
+    expect(trace.sourceVersion).toBe(3)
+    expect(trace.steps).toEqual([])
+    expect(trace.result.type).toBe("ok")
+  })
+
+  it("includes the failing step when a migration returns invalid data", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({
+          initial: false,
+          schema: v2_schema,
+          up(old: z.infer<typeof v1_schema>) {
+            return { ...old, v: 2 } as any
+          },
+        }),
+      },
+      getVersion(data) {
+        return (data as any)?.v ?? null
+      },
+    })
+
+    const trace = entity.explain({ v: 1, name: "env", variables: [{ key: "a", value: "b" }] })
+
+    expect(trace.steps).toHaveLength(1)
+    expect(trace.result).toEqual({
+      type: "err",
+      error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL", version: 2 }),
+    })
+  })
+
+  it("reports a null source version when the version could not be determined", () => {
+    const trace = createTestEntity().explain({})
+
+    expect(trace.sourceVersion).toBe(null)
+    expect(trace.result).toEqual({ type: "err", error: { type: "VER_CHECK_FAIL" } })
+  })
+})
+
+describe("explainAsync", () => {
+  it("records the migration steps like explain", async () => {
+    const entity = createTestEntity()
+
+    const data = { v: 2, name: "env", variables: [] }
+
+    expect(await entity.explainAsync(data)).toEqual(entity.explain(data))
+  })
+})
+
+describe("diffValues", () => {
+  it("reports removed array elements", () => {
+    expect(diffValues([1, 2, 3], [1, 2])).toEqual([{ type: "removed", path: [2], before: 3 }])
+  })
+
+  it("reports type changes as a change of the whole value", () => {
+    expect(diffValues({ a: [1] }, { a: { 0: 1 } })).toEqual([
+      { type: "changed", path: ["a"], before: [1], after: { 0: 1 } },
+    ])
+  })
+
+  it("reports no changes for structurally equal values", () => {
+    expect(diffValues({ a: [{ b: 1 }] }, { a: [{ b: 1 }] })).toEqual([])
+  })
+})
@@ -0,0 +1,56 @@
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, versionField } from "../../../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), name: z.string() })
+const v2_schema = z.object({ v: z.literal(2), name: z.string(), tags: z.array(z.string()) })
+const v3_schema = z.object({ v: z.literal(3), title: z.string(), tags: z.array(z.string()) })
+
+export const Document = createVersionedEntity({
+  latestVersion: 3,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      up(old: z.infer<typeof v1_schema>): z.infer<typeof v2_schema> {
+        if (old.name === "") throw new Error("the name is empty")
+
+        return { ...old, v: 2, tags: [] }
+      },
+    }),
+    3: defineVersion({
+      initial: false,
+      schema: v3_schema,
+      up(old: z.infer<typeof v2_schema>): z.infer<typeof v3_schema> {
+        return { v: 3, title: old.name, tags: old.tags }
+      },
+    }),
+  },
+  getVersion: versionField("v"),
+})
+
+export default Document
+
+export const AsyncDocument = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      async up(old: z.infer<typeof v1_schema>): Promise<z.infer<typeof v2_schema>> {
+        return { ...old, v: 2, tags: await Promise.resolve(["imported"]) }
+      },
+    }),
+  },
+  getVersion: versionField("v"),
+})
+
+export const notAnEntity = { v: 1 }
+
+export const Document_V4 = z.object({
+  v: z.literal(4),
+  title: z.string(),
+  tags: z.array(z.string()),
+  archived: z.boolean().default(false),
+})
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import {
+  createVersionedEntity,
+  defineVersion,
+  formatParseError,
+  formatParseErrorLine,
+  serializeParseError,
+} from "../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), name: z.string() })
+const v2_schema = z.object({ v: z.literal(2), name: z.string(), tags: z.array(z.string()) })
+
+const Environment = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      up(old: z.infer<typeof v1_schema>) {
+        return { ...old, v: 2 as const, tags: [1] as any }
+      },
+    }),
+  },
+  getVersion: (data) => (data as any)?.v ?? null,
+})
+
+describe("formatParseError", () => {
+  it("renders validation failures with their issues", () => {
+    const data = { v: 1, name: "env" }
+    const result = Environment.safeParse(data)
+
+    if (result.type !== "err") throw new Error("expected the parse to fail")
+
+    expect(formatParseError(result, { entityName: "Environment", version: Environment.getVersion(data) })).toBe(
+      [
+        "Could not parse Environment (v1): the data does not match the schema of version 2",
+        "  - tags.0: Expected string, received number",
+      ].join("\n")
+    )
+  })
+
+  it("adds a hint to the errors caused by the entity definition", () => {
+    expect(formatParseError({ type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: 3 }, { entityName: "Environment" })).toBe(
+      [
+        "Could not parse Environment: version 3 is missing from the version map of the entity",
+        "  Hint: This is a bug in the definition of Environment: add version 3 to the version map (`validateDefinition` reports all such problems)",
+      ].join("\n")
+    )
+  })
+
+  it("works without options", () => {
+    expect(formatParseError({ type: "err", error: { type: "VER_CHECK_FAIL" } })).toBe(
+      [
+        "Could not parse the entity: could not determine the version of the data",
+        "  Hint: Check that the data is an instance of the entity and that `getVersion` can read its version",
+      ].join("\n")
+    )
+  })
+})
+
+describe("formatParseErrorLine", () => {
+  it("renders the error into a single line", () => {
+    const result = Environment.safeParse({ v: 1, name: "env" })
+
+    if (result.type !== "err") throw new Error("expected the parse to fail")
+
+    expect(formatParseErrorLine(result, { entityName: "Environment" })).toBe(
+      "Could not parse Environment: the data does not match the schema of version 2 (tags.0: Expected string, received number)"
+    )
+  })
+})
+
+describe("serializeParseError", () => {
+  it("returns a JSON-serializable object", () => {
+    const result = Environment.safeParse({ v: 1, name: "env" })
+
+    if (result.type !== "err") throw new Error("expected the parse to fail")
+
+    const serialized = serializeParseError(result, { entityName: "Environment", version: 1 })
+
+    expect(JSON.parse(JSON.stringify(serialized))).toEqual({
+      type: "GIVEN_VER_VALIDATION_FAIL",
+      entity: "Environment",
+      detectedVersion: 1,
+      message:
+        "Could not parse Environment (v1): the data does not match the schema of version 2 (tags.0: Expected string, received number)",
+      hint: null,
+      issues: [{ path: ["tags", 0], code: "invalid_type", message: "Expected string, received number" }],
+      version: 2,
+    })
+  })
+
+  it("keeps the message of the value thrown by a migration", () => {
+    expect(
+      serializeParseError({
+        type: "MIGRATION_THREW",
+        fromVersion: 1,
+        toVersion: 2,
+        input: { v: 1 },
+        error: new Error("boom"),
+      })
+    ).toEqual(
+      expect.objectContaining({
+        type: "MIGRATION_THREW",
+        fromVersion: 1,
+        toVersion: 2,
+        cause: "boom",
+        message: "Could not parse the entity: the migration from version 1 to version 2 threw an error (boom)",
+      })
+    )
+  })
+
+  it("serializes thrown values that cannot be converted to a string", () => {
+    const serialized = serializeParseError({
+      type: "MIGRATION_THREW",
+      fromVersion: 1,
+      toVersion: 2,
+      input: { v: 1 },
+      error: Object.create(null),
+    })
+
+    expect(serialized.cause).toBe("[object Object]")
+  })
+})
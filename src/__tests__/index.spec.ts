@@ -361,6 +361,58 @@ describe("createVersionedEntity", () => {
         })
       )
     })
+
+    it("returns 'MIGRATION_THREW' object when an up function throws", () => {
+      const thrown = new Error("migration failed")
+
+      const entity = createVersionedEntity({
+        latestVersion: 2,
+        versionMap: {
+          1: defineVersion({
+            initial: true,
+            schema: z.object({
+              v: z.literal(1),
+              a: z.literal("b")
+            })
+          }),
+          2: defineVersion({
+            initial: false,
+            schema: z.object({
+              v: z.literal(2),
+              a: z.literal("b")
+            }),
+            up(old: unknown): { v: 2, a: "b" } {
+              throw thrown
+            }
+          })
+        },
+        getVersion(data) {
+            return (data as any).v
+        },
+      })
+
+      expect(entity.safeParse({ v: 1, a: "b" })).toEqual({
+        type: "err",
+        error: {
+          type: "MIGRATION_THREW",
+          fromVersion: 1,
+          toVersion: 2,
+          input: { v: 1, a: "b" },
+          error: thrown
+        }
+      })
+
+      expect(entity.safeParseUpToVersion({ v: 1, a: "b" }, 2)).toEqual({
+        type: "err",
+        error: {
+          type: "MIGRATION_THREW",
+          fromVersion: 1,
+          toVersion: 2,
+          input: { v: 1, a: "b" },
+          error: thrown
+        }
+      })
+    })
   })
 
   describe("is", () => {
@@ -0,0 +1,229 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, zodToJSONSchema } from "../index.js"
+
+const v1_schema = z.object({
+  v: z.literal(1),
+  name: z.string(),
+})
+
+const v2_schema = z.object({
+  v: z.literal(2),
+  name: z.string().min(1),
+  tags: z.array(z.string()).optional(),
+})
+
+function createTestEntity() {
+  return createVersionedEntity({
+    latestVersion: 2,
+    versionMap: {
+      1: defineVersion({ initial: true, schema: v1_schema }),
+      2: defineVersion({
+        initial: false,
+        schema: v2_schema,
+        up(old: z.infer<typeof v1_schema>): z.infer<typeof v2_schema> {
+          return { ...old, v: 2 }
+        },
+      }),
+    },
+    getVersion(data) {
+      const result = z.object({ v: z.number() }).safeParse(data)
+
+      return result.success ? result.data.v : null
+    },
+  })
+}
+
+describe("zodToJSONSchema", () => {
+  it("converts primitives and their checks", () => {
+    expect(zodToJSONSchema(z.string().min(1).max(10).email())).toEqual({
+      type: "string",
+      minLength: 1,
+      maxLength: 10,
+      format: "email",
+    })
+    expect(zodToJSONSchema(z.number().int().gt(0).lte(100))).toEqual({
+      type: "integer",
+      exclusiveMinimum: 0,
+      maximum: 100,
+    })
+    expect(zodToJSONSchema(z.boolean())).toEqual({ type: "boolean" })
+    expect(zodToJSONSchema(z.literal("a"))).toEqual({ type: "string", const: "a" })
+    expect(zodToJSONSchema(z.enum(["a", "b"]))).toEqual({ type: "string", enum: ["a", "b"] })
+  })
+
+  it("converts objects with required and optional properties", () => {
+    const schema = z
+      .object({
+        id: z.string(),
+        count: z.number().default(0),
+        note: z.string().nullable().optional(),
+      })
+      .strict()
+
+    expect(zodToJSONSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        count: { type: "number", default: 0 },
+        note: { anyOf: [{ type: "string" }, { type: "null" }] },
+      },
+      required: ["id"],
+      additionalProperties: false,
+    })
+  })
+
+  it("converts arrays, tuples, records and unions", () => {
+    expect(zodToJSONSchema(z.array(z.number()).min(1))).toEqual({
+      type: "array",
+      items: { type: "number" },
+      minItems: 1,
+    })
+    expect(zodToJSONSchema(z.tuple([z.string(), z.number()]))).toEqual({
+      type: "array",
+      prefixItems: [{ type: "string" }, { type: "number" }],
+      minItems: 2,
+      maxItems: 2,
+    })
+    expect(zodToJSONSchema(z.record(z.boolean()))).toEqual({
+      type: "object",
+      additionalProperties: { type: "boolean" },
+    })
+    expect(zodToJSONSchema(z.union([z.string(), z.null()]))).toEqual({
+      anyOf: [{ type: "string" }, { type: "null" }],
+    })
+  })
+
+  it("describes refinements and transforms by the schema they are applied on", () => {
+    const schema = z
+      .string()
+      .refine((value) => value.startsWith("a"))
+      .transform((value) => value.length)
+
+    expect(zodToJSONSchema(schema)).toEqual({ type: "string" })
+  })
+
+  it("emits the values of native enums without the reverse mappings of numeric members", () => {
+    enum Level {
+      Low,
+      High,
+    }
+
+    enum Mode {
+      Light = "light",
+      Dark = "dark",
+    }
+
+    expect(zodToJSONSchema(z.nativeEnum(Level))).toEqual({ enum: [0, 1] })
+    expect(zodToJSONSchema(z.nativeEnum(Mode))).toEqual({ enum: ["light", "dark"] })
+  })
+
+  it("emits recursive references as any value instead of recursing forever", () => {
+    type Node = { children: Node[] }
+
+    const Node: z.ZodType<Node> = z.lazy(() => z.object({ children: z.array(Node) }))
+
+    expect(zodToJSONSchema(Node)).toEqual({
+      type: "object",
+      properties: { children: { type: "array", items: {} } },
+      required: ["children"],
+    })
+  })
+
+  it("keeps the descriptions of the schemas", () => {
+    expect(zodToJSONSchema(z.string().describe("The name"))).toEqual({
+      description: "The name",
+      type: "string",
+    })
+  })
+})
+
+describe("toJSONSchema", () => {
+  it("emits the schema of the latest version by default", () => {
+    const entity = createTestEntity()
+
+    expect(entity.toJSONSchema()).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      type: "object",
+      properties: {
+        v: { type: "number", const: 2 },
+        name: { type: "string", minLength: 1 },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["v", "name"],
+    })
+  })
+
+  it("emits the schema of the given version", () => {
+    const entity = createTestEntity()
+
+    expect(entity.toJSONSchema(1)).toMatchObject({
+      properties: { v: { const: 1 }, name: { type: "string" } },
+      required: ["v", "name"],
+    })
+  })
+
+  it("throws for versions that are not in the version map", () => {
+    const entity = createTestEntity()
+
+    expect(() => entity.toJSONSchema(5 as any)).toThrow("Version 5 is not a version of the entity")
+  })
+})
+
+describe("toJSONSchemaBundle", () => {
+  it("emits every version under $defs with a oneOf discriminated by the detected version field", () => {
+    const entity = createTestEntity()
+
+    const bundle = entity.toJSONSchemaBundle()
+
+    expect(bundle).toEqual({
+      $schema: "https://json-schema.org/draft/2020-12/schema",
+      $defs: {
+        v1: expect.objectContaining({ properties: { v: { type: "number", const: 1 }, name: { type: "string" } } }),
+        v2: expect.objectContaining({ required: ["v", "name"] }),
+      },
+      oneOf: [{ $ref: "#/$defs/v1" }, { $ref: "#/$defs/v2" }],
+      discriminator: {
+        propertyName: "v",
+        mapping: { 1: "#/$defs/v1", 2: "#/$defs/v2" },
+      },
+    })
+    expect(bundle.$defs).not.toHaveProperty("v1.$schema")
+  })
+
+  it("prefers the field holding the version numbers, unless a version field is given", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: z.object({ kind: z.literal("note"), version: z.literal("1") }) }),
+        2: defineVersion({
+          initial: false,
+          schema: z.object({ kind: z.literal("document"), version: z.literal("2") }),
+          up: () => ({ kind: "document" as const, version: "2" as const }),
+        }),
+      },
+      getVersion: (data) => Number((data as any).version),
+    })
+
+    expect(entity.toJSONSchemaBundle().discriminator).toEqual({
+      propertyName: "version",
+      mapping: { 1: "#/$defs/v1", 2: "#/$defs/v2" },
+    })
+    expect(entity.toJSONSchemaBundle({ versionField: "kind" }).discriminator).toEqual({
+      propertyName: "kind",
+      mapping: { note: "#/$defs/v1", document: "#/$defs/v2" },
+    })
+  })
+
+  it("omits the discriminator if no version field can be detected", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 1,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: z.string() }),
+      },
+      getVersion: () => 1,
+    })
+
+    expect(entity.toJSONSchemaBundle()).not.toHaveProperty("discriminator")
+  })
+})
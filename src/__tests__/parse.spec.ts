@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, VerzodError } from "../index.js"
+
+const v1_schema = z.object({
+  v: z.literal(1),
+  value: z.number(),
+})
+
+const v2_schema = z.object({
+  v: z.literal(2),
+  value: z.number(),
+  doubled: z.boolean(),
+})
+
+function createTestEntity() {
+  return createVersionedEntity({
+    latestVersion: 2,
+    versionMap: {
+      1: defineVersion({
+        initial: true,
+        schema: v1_schema,
+      }),
+      2: defineVersion({
+        initial: false,
+        schema: v2_schema,
+        up(old: z.infer<typeof v1_schema>) {
+          return { v: 2 as const, value: old.value * 2, doubled: true }
+        },
+      }),
+    },
+    getVersion(data) {
+      return (data as any)?.v ?? null
+    },
+  })
+}
+
+function catchError(fn: () => unknown) {
+  try {
+    fn()
+  } catch (e) {
+    return e
+  }
+
+  throw new Error("Expected function to throw")
+}
+
+describe("parse", () => {
+  it("returns the migrated value directly", () => {
+    const entity = createTestEntity()
+
+    expect(entity.parse({ v: 1, value: 2 })).toEqual({ v: 2, value: 4, doubled: true })
+  })
+
+  it("throws a VerzodError with 'VER_CHECK_FAIL' when the version could not be determined", () => {
+    const entity = createTestEntity()
+
+    const error = catchError(() => entity.parse({ value: 2 }))
+
+    expect(error).toBeInstanceOf(VerzodError)
+    expect(error).toBeInstanceOf(Error)
+    expect((error as VerzodError).error).toEqual({ type: "VER_CHECK_FAIL" })
+    expect((error as VerzodError).name).toBe("VerzodError")
+  })
+
+  it("throws a VerzodError with 'INVALID_VER' when the version is not in the version map", () => {
+    const entity = createTestEntity()
+
+    const error = catchError(() => entity.parse({ v: 3, value: 2 }))
+
+    expect((error as VerzodError).error).toEqual({ type: "INVALID_VER" })
+  })
+
+  it("throws a VerzodError with the ZodError as cause when the schema validation fails", () => {
+    const entity = createTestEntity()
+
+    const error = catchError(() => entity.parse({ v: 1, value: "2" })) as VerzodError
+
+    expect(error.error.type).toBe("GIVEN_VER_VALIDATION_FAIL")
+    expect(error.cause).toBeInstanceOf(z.ZodError)
+    expect(error.message).toContain("version 1")
+    expect(error.message).toContain("value:")
+  })
+
+  it("throws a VerzodError with the thrown value as cause when a migration throws", () => {
+    const thrown = new Error("boom")
+
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({
+          initial: false,
+          schema: v2_schema,
+          up(): z.infer<typeof v2_schema> {
+            throw thrown
+          },
+        }),
+      },
+      getVersion(data) {
+        return (data as any)?.v ?? null
+      },
+    })
+
+    const error = catchError(() => entity.parse({ v: 1, value: 2 })) as VerzodError
+
+    expect(error.error.type).toBe("MIGRATION_THREW")
+    expect(error.cause).toBe(thrown)
+    expect(error.message).toContain("boom")
+  })
+})
+
+describe("parseAsync", () => {
+  it("returns the migrated value directly", async () => {
+    const entity = createTestEntity()
+
+    expect(await entity.parseAsync({ v: 1, value: 2 })).toEqual({ v: 2, value: 4, doubled: true })
+  })
+
+  it("rejects with a VerzodError on failure", async () => {
+    const entity = createTestEntity()
+
+    await expect(entity.parseAsync({ v: 5 })).rejects.toBeInstanceOf(VerzodError)
+  })
+})
+
+describe("parseUpToVersion", () => {
+  it("returns the value migrated up to the given version", () => {
+    const entity = createTestEntity()
+
+    expect(entity.parseUpToVersion({ v: 1, value: 2 }, 1)).toEqual({ v: 1, value: 2 })
+  })
+
+  it("throws a VerzodError with 'INVALID_VER' when the data version is higher than requested", () => {
+    const entity = createTestEntity()
+
+    const error = catchError(() => entity.parseUpToVersion({ v: 2, value: 2, doubled: true }, 1))
+
+    expect((error as VerzodError).error).toEqual({ type: "INVALID_VER" })
+  })
+})
+
+describe("parseUpToVersionAsync", () => {
+  it("returns the value migrated up to the given version", async () => {
+    const entity = createTestEntity()
+
+    expect(await entity.parseUpToVersionAsync({ v: 1, value: 2 }, 2)).toEqual({ v: 2, value: 4, doubled: true })
+  })
+})
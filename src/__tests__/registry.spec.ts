@@ -0,0 +1,96 @@
+import { describe, expect, expectTypeOf, it } from "vitest"
+import { z } from "zod"
+import { createEntityRegistry, createVersionedEntity, defineVersion, versionField } from "../index.js"
+
+const environment_v1 = z.object({ kind: z.literal("Environment"), v: z.literal(1), name: z.string() })
+const environment_v2 = z.object({ kind: z.literal("Environment"), v: z.literal(2), title: z.string() })
+
+const Environment = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: environment_v1 }),
+    2: defineVersion({
+      initial: false,
+      schema: environment_v2,
+      up(old: z.infer<typeof environment_v1>): z.infer<typeof environment_v2> {
+        return { kind: "Environment", v: 2, title: old.name }
+      },
+    }),
+  },
+  getVersion: versionField("v"),
+})
+
+const collection_v1 = z.object({ kind: z.literal("Collection"), v: z.literal(1), requests: z.array(z.string()) })
+
+const Collection = createVersionedEntity({
+  latestVersion: 1,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: collection_v1 }),
+  },
+  getVersion: versionField("v"),
+})
+
+const registry = createEntityRegistry({ Environment, Collection }, { kindField: "kind" })
+
+describe("createEntityRegistry", () => {
+  it("parses and migrates the data as the entity matching its kind", () => {
+    expect(registry.safeParse({ kind: "Environment", v: 1, name: "a" })).toEqual({
+      type: "ok",
+      kind: "Environment",
+      value: { kind: "Environment", v: 2, title: "a" },
+    })
+    expect(registry.safeParse({ kind: "Collection", v: 1, requests: [] })).toEqual({
+      type: "ok",
+      kind: "Collection",
+      value: { kind: "Collection", v: 1, requests: [] },
+    })
+  })
+
+  it("reports UNKNOWN_KIND when no entity matches the kind field", () => {
+    expect(registry.safeParse({ kind: "Folder", v: 1 })).toEqual({
+      type: "err",
+      error: { type: "UNKNOWN_KIND", kind: "Folder" },
+    })
+    expect(registry.safeParse({ v: 1 })).toEqual({
+      type: "err",
+      error: { type: "UNKNOWN_KIND", kind: undefined },
+    })
+    expect(registry.safeParse({ kind: "toString" })).toMatchObject({ error: { type: "UNKNOWN_KIND" } })
+    expect(registry.safeParse("Environment")).toMatchObject({ error: { type: "UNKNOWN_KIND" } })
+  })
+
+  it("reports the errors of the matching entity along with its kind", () => {
+    expect(registry.safeParse({ kind: "Environment", v: 3 })).toEqual({
+      type: "err",
+      kind: "Environment",
+      error: { type: "INVALID_VER" },
+    })
+  })
+
+  it("parses asynchronously with safeParseAsync", async () => {
+    expect(await registry.safeParseAsync({ kind: "Environment", v: 1, name: "a" })).toEqual({
+      type: "ok",
+      kind: "Environment",
+      value: { kind: "Environment", v: 2, title: "a" },
+    })
+  })
+
+  it("checks the data with is and getKind", () => {
+    expect(registry.is({ kind: "Collection", v: 1, requests: [] })).toBe(true)
+    expect(registry.is({ kind: "Collection", v: 1 })).toBe(false)
+    expect(registry.getKind({ kind: "Environment" })).toBe("Environment")
+    expect(registry.getKind({ kind: "Folder" })).toBe(null)
+  })
+
+  it("narrows the migrated value by kind", () => {
+    const result = registry.safeParse({ kind: "Environment", v: 1, name: "a" })
+
+    if (result.type === "ok" && result.kind === "Environment") {
+      expectTypeOf(result.value).toEqualTypeOf<z.infer<typeof environment_v2>>()
+    }
+
+    if (result.type === "ok" && result.kind === "Collection") {
+      expectTypeOf(result.value).toEqualTypeOf<z.infer<typeof collection_v1>>()
+    }
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, scaffoldMigration } from "../index.js"
+
+const v1_schema = z.object({
+  v: z.literal(1),
+  name: z.string(),
+  legacy: z.boolean(),
+  count: z.string(),
+})
+
+function createTestEntity() {
+  return createVersionedEntity({
+    latestVersion: 1,
+    versionMap: {
+      1: defineVersion({ initial: true, schema: v1_schema }),
+    },
+    getVersion: () => 1,
+  })
+}
+
+describe("scaffoldMigration", () => {
+  it("carries over unchanged fields, sets literals and defaults and marks the rest as TODO", () => {
+    const v2_schema = z.object({
+      v: z.literal(2),
+      title: z.string(),
+      count: z.number(),
+      archived: z.boolean().default(false),
+      owner: z.string(),
+      "display-name": z.string().optional(),
+    })
+
+    expect(scaffoldMigration(createTestEntity(), v2_schema)).toBe(
+      [
+        "2: defineVersion({",
+        "  initial: false,",
+        "  schema: v2_schema,",
+        "  up(old: z.infer<typeof v1_schema>): z.infer<typeof v2_schema> {",
+        "    // Removed fields: legacy (boolean)",
+        "    return {",
+        "      v: 2,",
+        "      title: old.name, // TODO: check that title was renamed from name",
+        "      count: old.count, // TODO: retyped count: string -> number",
+        "      archived: false,",
+        "      owner: undefined, // TODO: string",
+        '      "display-name": undefined, // TODO: string (optional)',
+        "    }",
+        "  },",
+        "}),",
+      ].join("\n")
+    )
+  })
+
+  it("uses the given schema names", () => {
+    const output = scaffoldMigration(createTestEntity(), v1_schema.extend({ v: z.literal(2) }), {
+      schemaName: "Entity_V2",
+      previousSchemaName: "Entity_V1",
+    })
+
+    expect(output).toContain("  schema: Entity_V2,")
+    expect(output).toContain("  up(old: z.infer<typeof Entity_V1>): z.infer<typeof Entity_V2> {")
+    expect(output).toContain("      name: old.name,\n      legacy: old.legacy,")
+  })
+
+  it("marks migrations to non-object schemas as TODO", () => {
+    expect(scaffoldMigration(createTestEntity(), z.string())).toContain(
+      "    // TODO: retyped (root): object -> string\n    return old"
+    )
+  })
+
+  it("requires the version of the new schema for entities with non-numeric versions", () => {
+    const entity = createVersionedEntity({
+      latestVersion: "1.4.0",
+      versions: ["1.4.0"],
+      versionMap: {
+        "1.4.0": defineVersion({ initial: true, schema: v1_schema }),
+      },
+      getVersion: () => "1.4.0",
+    })
+
+    expect(() => scaffoldMigration(entity, v1_schema)).toThrow("The version of the new schema has to be given")
+
+    const output = scaffoldMigration(entity, v1_schema, { version: "2.0.0" })
+
+    expect(output).toContain('"2.0.0": defineVersion({')
+    expect(output).toContain("  up(old: z.infer<typeof v1_4_0_schema>): z.infer<typeof v2_0_0_schema> {")
+  })
+})
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, describeZodType, diffSchemas, diffVersions, summarizeVersionDiff } from "../index.js"
+
+const v1_schema = z.object({
+  v: z.literal(1),
+  name: z.string(),
+  legacy: z.boolean(),
+  variables: z.array(z.object({ key: z.string(), value: z.string() })),
+})
+
+const v2_schema = z.object({
+  v: z.literal(2),
+  title: z.string(),
+  color: z.string().optional(),
+  variables: z.array(z.object({ key: z.string(), value: z.number(), masked: z.boolean() })),
+})
+
+function createTestEntity() {
+  return createVersionedEntity({
+    latestVersion: 2,
+    versionMap: {
+      1: defineVersion({ initial: true, schema: v1_schema }),
+      2: defineVersion({
+        initial: false,
+        schema: v2_schema,
+        up(old: z.infer<typeof v1_schema>): z.infer<typeof v2_schema> {
+          return {
+            v: 2,
+            title: old.name,
+            variables: old.variables.map((v) => ({ key: v.key, value: Number(v.value), masked: false })),
+          }
+        },
+      }),
+    },
+    getVersion(data) {
+      const result = z.object({ v: z.number() }).safeParse(data)
+
+      return result.success ? result.data.v : null
+    },
+  })
+}
+
+describe("diffVersions", () => {
+  it("reports the changes between two versions with their paths", () => {
+    expect(diffVersions(createTestEntity(), 1, 2)).toEqual({
+      from: 1,
+      to: 2,
+      changes: [
+        { type: "RETYPED", path: ["v"], before: "1", after: "2" },
+        { type: "RETYPED", path: ["variables", "[]", "value"], before: "string", after: "number" },
+        { type: "ADDED", path: ["variables", "[]", "masked"], fieldType: "boolean", optional: false },
+        { type: "RENAMED", path: ["title"], from: ["name"], fieldType: "string" },
+        { type: "REMOVED", path: ["legacy"], fieldType: "boolean" },
+        { type: "ADDED", path: ["color"], fieldType: "string", optional: true },
+      ],
+    })
+  })
+
+  it("reports no changes for the same version", () => {
+    expect(diffVersions(createTestEntity(), 2, 2).changes).toEqual([])
+  })
+
+  it("summarizes the diff in a human-readable form", () => {
+    expect(summarizeVersionDiff(diffVersions(createTestEntity(), 1, 2))).toBe(
+      [
+        "v1 -> v2: 6 changes",
+        "  retyped      v: 1 -> 2",
+        "  retyped      variables[].value: string -> number",
+        "  added        variables[].masked: boolean",
+        "  renamed      name -> title (string)",
+        "  removed      legacy: boolean",
+        "  added        color: string (optional)",
+      ].join("\n")
+    )
+    expect(summarizeVersionDiff(diffVersions(createTestEntity(), 2, 2))).toBe("v2 -> v2: no changes")
+  })
+})
+
+describe("diffSchemas", () => {
+  it("reports optionality changes", () => {
+    const before = z.object({ a: z.string(), b: z.number().optional() })
+    const after = z.object({ a: z.string().default(""), b: z.number() })
+
+    expect(diffSchemas(before, after)).toEqual([
+      { type: "OPTIONALITY_CHANGED", path: ["a"], optional: true },
+      { type: "OPTIONALITY_CHANGED", path: ["b"], optional: false },
+    ])
+  })
+
+  it("does not pair removed and added fields with different schemas as renames", () => {
+    const before = z.object({ a: z.string() })
+    const after = z.object({ b: z.string().optional() })
+
+    expect(diffSchemas(before, after)).toEqual([
+      { type: "REMOVED", path: ["a"], fieldType: "string" },
+      { type: "ADDED", path: ["b"], fieldType: "string", optional: true },
+    ])
+  })
+
+  it("compares nested objects and reports retyped roots", () => {
+    const before = z.object({ meta: z.object({ createdAt: z.string() }) })
+    const after = z.object({ meta: z.object({ createdAt: z.number().int() }) })
+
+    expect(diffSchemas(before, after)).toEqual([
+      { type: "RETYPED", path: ["meta", "createdAt"], before: "string", after: "integer" },
+    ])
+    expect(diffSchemas(z.string(), z.array(z.string()))).toEqual([
+      { type: "RETYPED", path: [], before: "string", after: "string[]" },
+    ])
+  })
+})
+
+describe("describeZodType", () => {
+  it("renders types in a TypeScript-like notation", () => {
+    expect(describeZodType(z.string().nullable())).toBe("string | null")
+    expect(describeZodType(z.array(z.union([z.string(), z.number()])))).toBe("(string | number)[]")
+    expect(describeZodType(z.enum(["a", "b"]))).toBe('"a" | "b"')
+    expect(describeZodType(z.record(z.boolean()))).toBe("Record<string, boolean>")
+    expect(describeZodType(z.object({}))).toBe("object")
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, expect, it, vi } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion } from "../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), count: z.number() })
+const v2_schema = z.object({ v: z.literal(2), count: z.number() })
+const v3_schema = z.object({ v: z.literal(3), count: z.number() })
+const v4_schema = z.object({ v: z.literal(4), count: z.number() })
+
+function createTestEntity() {
+  const steps = {
+    up2: vi.fn((old: z.infer<typeof v1_schema>) => ({ v: 2 as const, count: old.count + 1 })),
+    up3: vi.fn((old: z.infer<typeof v2_schema>) => ({ v: 3 as const, count: old.count + 1 })),
+    up4: vi.fn((old: z.infer<typeof v3_schema>) => ({ v: 4 as const, count: old.count + 1 })),
+    shortcut: vi.fn((old: z.infer<typeof v1_schema>) => ({ v: 3 as const, count: old.count + 2 })),
+  }
+
+  const entity = createVersionedEntity({
+    latestVersion: 4,
+    versionMap: {
+      1: defineVersion({ initial: true, schema: v1_schema }),
+      2: defineVersion({ initial: false, schema: v2_schema, up: steps.up2 }),
+      3: defineVersion({ initial: false, schema: v3_schema, up: steps.up3 }),
+      4: defineVersion({ initial: false, schema: v4_schema, up: steps.up4 }),
+    },
+    shortcuts: [
+      {
+        from: 1,
+        to: 3,
+        up(old) {
+          return steps.shortcut(old)
+        },
+      },
+    ],
+    getVersion: (data) => (data as any)?.v ?? null,
+  })
+
+  return { entity, steps }
+}
+
+describe("shortcuts", () => {
+  it("takes the shortcut when it leads to fewer steps", () => {
+    const { entity, steps } = createTestEntity()
+
+    expect(entity.safeParse({ v: 1, count: 0 })).toEqual({ type: "ok", value: { v: 4, count: 3 } })
+
+    expect(steps.shortcut).toHaveBeenCalledOnce()
+    expect(steps.up2).not.toHaveBeenCalled()
+    expect(steps.up3).not.toHaveBeenCalled()
+    expect(steps.up4).toHaveBeenCalledOnce()
+  })
+
+  it("walks the step-by-step chain from versions without a shortcut", () => {
+    const { entity, steps } = createTestEntity()
+
+    expect(entity.safeParse({ v: 2, count: 0 })).toEqual({ type: "ok", value: { v: 4, count: 2 } })
+
+    expect(steps.shortcut).not.toHaveBeenCalled()
+  })
+
+  it("does not take shortcuts beyond the target version", () => {
+    const { entity, steps } = createTestEntity()
+
+    expect(entity.safeParseUpToVersion({ v: 1, count: 0 }, 2)).toEqual({ type: "ok", value: { v: 2, count: 1 } })
+
+    expect(steps.shortcut).not.toHaveBeenCalled()
+  })
+
+  it("validates the output of the shortcut against the schema of its target version", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 3,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({ initial: false, schema: v2_schema, up: (old) => ({ ...old, v: 2 as const }) }),
+        3: defineVersion({ initial: false, schema: v3_schema, up: (old) => ({ ...old, v: 3 as const }) }),
+      },
+      shortcuts: [{ from: 1, to: 3, up: (old) => ({ ...old, v: 2 }) as any }],
+      getVersion: (data) => (data as any)?.v ?? null,
+    })
+
+    expect(entity.safeParse({ v: 1, count: 0 })).toEqual({
+      type: "err",
+      error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL", version: 3 }),
+    })
+  })
+
+  it("reports the path taken", () => {
+    const { entity } = createTestEntity()
+
+    expect(entity.getMigrationPath(1, 4)).toEqual([1, 3, 4])
+    expect(entity.getMigrationPath(2, 4)).toEqual([2, 3, 4])
+    expect(entity.getMigrationPath(4, 1)).toBeNull()
+
+    const { steps } = entity.explain({ v: 1, count: 0 })
+
+    expect(steps.map(({ fromVersion, toVersion, shortcut }) => ({ fromVersion, toVersion, shortcut }))).toEqual([
+      { fromVersion: 1, toVersion: 3, shortcut: true },
+      { fromVersion: 3, toVersion: 4, shortcut: false },
+    ])
+  })
+
+  it("awaits async shortcuts", async () => {
+    const entity = createVersionedEntity({
+      latestVersion: 3,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({ initial: false, schema: v2_schema, up: (old) => ({ ...old, v: 2 as const }) }),
+        3: defineVersion({ initial: false, schema: v3_schema, up: (old) => ({ ...old, v: 3 as const }) }),
+      },
+      shortcuts: [{ from: 1, to: 3, up: async (old) => ({ v: 3 as const, count: old.count + 10 }) }],
+      getVersion: (data) => (data as any)?.v ?? null,
+    })
+
+    expect(await entity.safeParseAsync({ v: 1, count: 0 })).toEqual({ type: "ok", value: { v: 3, count: 10 } })
+  })
+
+  it("reports shortcuts that do not migrate up as definition problems", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap: {
+        1: defineVersion({ initial: true, schema: v1_schema }),
+        2: defineVersion({ initial: false, schema: v2_schema, up: (old) => ({ ...old, v: 2 as const }) }),
+      },
+      shortcuts: [{ from: 2, to: 1, up: (old) => ({ ...old, v: 1 as const }) }],
+      getVersion: (data) => (data as any)?.v ?? null,
+    })
+
+    expect(entity.validateDefinition()).toEqual([
+      expect.objectContaining({ type: "INVALID_SHORTCUT", from: 2, to: 1 }),
+    ])
+  })
+})
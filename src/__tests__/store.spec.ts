@@ -0,0 +1,163 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import { join } from "node:path"
+import { afterEach, beforeEach, describe, expect, expectTypeOf, it } from "vitest"
+import { z } from "zod"
+import {
+  createJSONFileAdapter,
+  createMemoryAdapter,
+  createVersionedEntity,
+  createVersionedStore,
+  defineVersion,
+  VerzodError,
+} from "../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), name: z.string() })
+const v2_schema = z.object({ v: z.literal(2), title: z.string() })
+
+const Note = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      up(old: z.infer<typeof v1_schema>) {
+        return { v: 2 as const, title: old.name }
+      },
+    }),
+  },
+  getVersion: (data) => (data as any)?.v ?? null,
+})
+
+describe("createVersionedStore", () => {
+  it("returns the latest version and writes migrated data back on get", async () => {
+    const adapter = createMemoryAdapter({ a: { v: 1, name: "a" } })
+    const store = createVersionedStore(Note, adapter)
+
+    expect(await store.get("a")).toEqual({ v: 2, title: "a" })
+    expect(adapter.get("a")).toEqual({ v: 2, title: "a" })
+  })
+
+  it("only writes back on demand with writeBack: manual", async () => {
+    const adapter = createMemoryAdapter({ a: { v: 1, name: "a" } })
+    const store = createVersionedStore(Note, adapter, { writeBack: "manual" })
+
+    expect(await store.get("a")).toEqual({ v: 2, title: "a" })
+    expect(adapter.get("a")).toEqual({ v: 1, name: "a" })
+
+    expect(await store.migrate("a")).toEqual({ type: "ok", value: { v: 2, title: "a" } })
+    expect(adapter.get("a")).toEqual({ v: 2, title: "a" })
+  })
+
+  it("returns undefined for missing keys and throws for invalid data", async () => {
+    const store = createVersionedStore(Note, createMemoryAdapter({ broken: { v: 7 } }))
+
+    expect(await store.get("missing")).toBeUndefined()
+    expect(await store.safeGet("broken")).toEqual({ type: "err", error: { type: "INVALID_VER" } })
+    await expect(store.get("broken")).rejects.toBeInstanceOf(VerzodError)
+  })
+
+  it("stamps and validates the values given to set", async () => {
+    const adapter = createMemoryAdapter()
+    const store = createVersionedStore(Note, adapter, { versionField: "v" })
+
+    await store.set("a", { title: "a" })
+
+    expect(adapter.get("a")).toEqual({ v: 2, title: "a" })
+
+    await expect(store.set("b", { name: "b" } as any)).rejects.toBeInstanceOf(VerzodError)
+    expect(adapter.get("b")).toBeUndefined()
+  })
+
+  it("types the values given to set without the stamped version field", () => {
+    const stamped = createVersionedStore(Note, createMemoryAdapter(), { versionField: "v" })
+    const unstamped = createVersionedStore(Note, createMemoryAdapter())
+
+    expectTypeOf(stamped.set).parameter(1).toEqualTypeOf<{ title: string }>()
+    expectTypeOf(unstamped.set).parameter(1).toEqualTypeOf<{ v: 2; title: string }>()
+  })
+
+  it("rejects older versions given to set", async () => {
+    const store = createVersionedStore(Note, createMemoryAdapter())
+
+    await expect(store.set("a", { v: 1, name: "a" } as any)).rejects.toThrow(VerzodError)
+  })
+
+  it("migrates every key with migrateAll", async () => {
+    const adapter = createMemoryAdapter({
+      a: { v: 1, name: "a" },
+      b: { v: 2, title: "b" },
+      c: { v: 7 },
+    })
+
+    const report = await createVersionedStore(Note, adapter, { writeBack: "manual" }).migrateAll()
+
+    expect(report).toEqual({
+      migrated: ["a"],
+      alreadyLatest: ["b"],
+      failed: [{ key: "c", error: { type: "INVALID_VER" } }],
+    })
+
+    expect(adapter.get("a")).toEqual({ v: 2, title: "a" })
+    expect(adapter.get("c")).toEqual({ v: 7 })
+  })
+})
+
+describe("createJSONFileAdapter", () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "verzod-store-"))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it("keeps the values in a JSON file", async () => {
+    const file = join(dir, "notes.json")
+
+    await writeFile(file, JSON.stringify({ a: { v: 1, name: "a" } }))
+
+    const store = createVersionedStore(Note, createJSONFileAdapter(file))
+
+    expect(await store.get("a")).toEqual({ v: 2, title: "a" })
+
+    await store.set("b", { v: 2, title: "b" })
+    await store.delete("a")
+
+    expect(JSON.parse(await readFile(file, "utf-8"))).toEqual({ b: { v: 2, title: "b" } })
+    expect(await store.keys()).toEqual(["b"])
+  })
+
+  it("stores keys named like Object.prototype properties", async () => {
+    const file = join(dir, "notes.json")
+    const adapter = createJSONFileAdapter(file)
+
+    await adapter.set("__proto__", { v: 2, title: "proto" })
+
+    expect(await adapter.keys()).toEqual(["__proto__"])
+    expect(await adapter.get("__proto__")).toEqual({ v: 2, title: "proto" })
+    expect(JSON.parse(await readFile(file, "utf-8"))).toEqual(JSON.parse('{ "__proto__": { "v": 2, "title": "proto" } }'))
+    expect(await createJSONFileAdapter(file).keys()).toEqual(["__proto__"])
+  })
+
+  it("reads the file again after a failed read", async () => {
+    const file = join(dir, "notes.json")
+    const adapter = createJSONFileAdapter(file)
+
+    await writeFile(file, "{ not json")
+    await expect(adapter.keys()).rejects.toThrow(SyntaxError)
+
+    await writeFile(file, JSON.stringify({ a: { v: 2, title: "a" } }))
+    expect(await adapter.keys()).toEqual(["a"])
+  })
+
+  it("treats a missing file as an empty store", async () => {
+    const adapter = createJSONFileAdapter(join(dir, "missing.json"))
+
+    expect(await adapter.keys()).toEqual([])
+    expect(await adapter.get("toString")).toBeUndefined()
+  })
+})
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import {
+  createVersionedEntity,
+  defineVersion,
+  parseVersionString,
+  probeSchemas,
+  versionAtPath,
+  versionField,
+} from "../index.js"
+
+describe("parseVersionString", () => {
+  it("parses plain and 'v' prefixed versions", () => {
+    expect(parseVersionString("2")).toBe(2)
+    expect(parseVersionString("v2")).toBe(2)
+    expect(parseVersionString("V12")).toBe(12)
+  })
+
+  it("returns null for strings that are not versions", () => {
+    expect(parseVersionString("")).toBe(null)
+    expect(parseVersionString("v")).toBe(null)
+    expect(parseVersionString("2.1")).toBe(null)
+    expect(parseVersionString("version 2")).toBe(null)
+  })
+})
+
+describe("versionField", () => {
+  it("reads the version from the given field", () => {
+    expect(versionField("v")({ v: 2 })).toBe(2)
+  })
+
+  it("returns null when the data is not an object or the field is missing", () => {
+    const getVersion = versionField("v")
+
+    expect(getVersion(null)).toBe(null)
+    expect(getVersion("v")).toBe(null)
+    expect(getVersion({})).toBe(null)
+    expect(getVersion({ v: 1.5 })).toBe(null)
+  })
+
+  it("only parses string versions when enabled", () => {
+    expect(versionField("v")({ v: "v2" })).toBe(null)
+    expect(versionField("v", { parseStrings: true })({ v: "v2" })).toBe(2)
+    expect(versionField("v", { parseStrings: true })({ v: "2" })).toBe(2)
+  })
+})
+
+describe("versionAtPath", () => {
+  it("reads the version from a nested path", () => {
+    const getVersion = versionAtPath(["meta", "schemaVersion"])
+
+    expect(getVersion({ meta: { schemaVersion: 3 }, payload: {} })).toBe(3)
+    expect(getVersion({ meta: {} })).toBe(null)
+    expect(getVersion({ meta: 3 })).toBe(null)
+  })
+
+  it("supports array indices in the path", () => {
+    expect(versionAtPath(["header", 0])({ header: [4, "x"] })).toBe(4)
+  })
+})
+
+describe("probeSchemas", () => {
+  const v1_schema = z.object({ name: z.string() }).strict()
+  const v2_schema = z.object({ name: z.string(), tags: z.array(z.string()) }).strict()
+
+  const versionMap = {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      up(old: z.infer<typeof v1_schema>) {
+        return { ...old, tags: [] }
+      },
+    }),
+  }
+
+  it("infers the version by trying the schemas from newest to oldest", () => {
+    const getVersion = probeSchemas(versionMap)
+
+    expect(getVersion({ name: "a", tags: [] })).toBe(2)
+    expect(getVersion({ name: "a" })).toBe(1)
+    expect(getVersion({ title: "a" })).toBe(null)
+  })
+
+  it("works as the getVersion of an entity", () => {
+    const entity = createVersionedEntity({
+      latestVersion: 2,
+      versionMap,
+      getVersion: probeSchemas(versionMap),
+    })
+
+    expect(entity.safeParse({ name: "a" })).toEqual({
+      type: "ok",
+      value: { name: "a", tags: [] },
+    })
+  })
+})
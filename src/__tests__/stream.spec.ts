@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import {
+  createVersionedEntity,
+  defineVersion,
+  migrateStream,
+  stringifyNDJSON,
+  VerzodError,
+  type StreamFailure,
+} from "../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), name: z.string() })
+const v2_schema = z.object({ v: z.literal(2), name: z.string(), tags: z.array(z.string()) })
+
+const Entity = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      up(old: z.infer<typeof v1_schema>) {
+        return { ...old, v: 2 as const, tags: [] }
+      },
+    }),
+  },
+  getVersion(data) {
+    return (data as any)?.v ?? null
+  },
+})
+
+function streamOf<T>(chunks: T[]) {
+  return new ReadableStream<T>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(chunk))
+      controller.close()
+    },
+  })
+}
+
+async function collect<T>(stream: ReadableStream<T>) {
+  const values: T[] = []
+
+  const reader = stream.getReader()
+
+  while (true) {
+    const { done, value } = await reader.read()
+
+    if (done) return values
+
+    values.push(value)
+  }
+}
+
+describe("migrateStream", () => {
+  it("migrates every line to the latest version", async () => {
+    const input = streamOf(['{"v":1,"name":"a"}\n{"v":2,"name":"b","tags":["x"]}\n'])
+
+    expect(await collect(input.pipeThrough(migrateStream(Entity)))).toEqual([
+      { v: 2, name: "a", tags: [] },
+      { v: 2, name: "b", tags: ["x"] },
+    ])
+  })
+
+  it("handles lines split across chunks, CRLF line endings and a missing trailing newline", async () => {
+    const input = streamOf(['{"v":1,', '"name":"a"}\r\n\n{"v":1', ',"name":"b"}'])
+
+    expect(await collect(input.pipeThrough(migrateStream(Entity)))).toEqual([
+      { v: 2, name: "a", tags: [] },
+      { v: 2, name: "b", tags: [] },
+    ])
+  })
+
+  it("decodes byte chunks as UTF-8", async () => {
+    const bytes = new TextEncoder().encode('{"v":1,"name":"ünïcödé"}\n')
+    const input = streamOf([bytes.slice(0, 16), bytes.slice(16)])
+
+    expect(await collect(input.pipeThrough(migrateStream(Entity)))).toEqual([
+      { v: 2, name: "ünïcödé", tags: [] },
+    ])
+  })
+
+  it("routes failures with their line number to the error function", async () => {
+    const failures: StreamFailure[] = []
+
+    const input = streamOf(['{"v":1,"name":"a"}\nnot json\n\n{"v":3}\n{"v":1,"name":"b"}\n'])
+
+    const output = await collect(
+      input.pipeThrough(migrateStream(Entity, { errors: (failure) => void failures.push(failure) }))
+    )
+
+    expect(output).toEqual([
+      { v: 2, name: "a", tags: [] },
+      { v: 2, name: "b", tags: [] },
+    ])
+
+    expect(failures).toEqual([
+      { type: "INVALID_JSON", line: 2, text: "not json", error: expect.any(SyntaxError) },
+      { type: "PARSE_FAIL", line: 4, text: '{"v":3}', error: { type: "INVALID_VER" } },
+    ])
+  })
+
+  it("routes failures to an error WritableStream", async () => {
+    const failures: StreamFailure[] = []
+
+    const errors = new WritableStream<StreamFailure>({
+      write(failure) {
+        failures.push(failure)
+      },
+    })
+
+    await collect(streamOf(['{"v":1}\n']).pipeThrough(migrateStream(Entity, { errors })))
+
+    expect(failures).toEqual([
+      expect.objectContaining({ type: "PARSE_FAIL", line: 1, error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL" }) }),
+    ])
+  })
+
+  it("aborts the error WritableStream when the source errors", async () => {
+    const aborted: unknown[] = []
+    const errors = new WritableStream<StreamFailure>({ abort: (reason) => void aborted.push(reason) })
+
+    const input = new ReadableStream<string>({
+      start(controller) {
+        controller.error(new Error("connection lost"))
+      },
+    })
+
+    await expect(collect(input.pipeThrough(migrateStream(Entity, { errors })))).rejects.toThrow("connection lost")
+
+    expect(aborted).toEqual([new Error("connection lost")])
+    expect(errors.locked).toBe(false)
+  })
+
+  it("aborts the error WritableStream when the consumer cancels", async () => {
+    const aborted: unknown[] = []
+    const errors = new WritableStream<StreamFailure>({ abort: (reason) => void aborted.push(reason) })
+
+    await migrateStream(Entity, { errors }).readable.cancel("stopped")
+
+    expect(aborted).toEqual(["stopped"])
+    expect(errors.locked).toBe(false)
+  })
+
+  it("errors the stream on the first failure when no error sink is given", async () => {
+    const input = streamOf(['{"v":1,"name":"a"}\n{"v":3}\n{"v":1,"name":"b"}\n'])
+
+    await expect(collect(input.pipeThrough(migrateStream(Entity)))).rejects.toBeInstanceOf(VerzodError)
+  })
+})
+
+describe("stringifyNDJSON", () => {
+  it("serializes every value into a line", async () => {
+    const output = await collect(streamOf([{ a: 1 }, { b: 2 }]).pipeThrough(stringifyNDJSON()))
+
+    expect(output.join("")).toBe('{"a":1}\n{"b":2}\n')
+  })
+})
@@ -0,0 +1,161 @@
+import { fileURLToPath } from "node:url"
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, versionField } from "../index.js"
+import { loadFixtures, testMigrations } from "../testing.js"
+
+const v1_schema = z.object({
+  name: z.string(),
+  v: z.literal(1),
+  variables: z.array(z.object({ name: z.string(), value: z.string() })),
+})
+
+const v2_schema = z.object({
+  name: z.string(),
+  v: z.literal(2),
+  variables: z.array(z.object({ name: z.string(), value: z.string(), masked: z.boolean() })),
+})
+
+const Environment = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      up(old: z.infer<typeof v1_schema>): z.infer<typeof v2_schema> {
+        return {
+          ...old,
+          v: 2,
+          variables: old.variables.map((v) => ({ ...v, masked: false })),
+        }
+      },
+    }),
+  },
+  getVersion: versionField("v"),
+})
+
+const fixturesDir = fileURLToPath(new URL("./fixtures/environment", import.meta.url))
+
+const r1_schema = z.object({ release: z.literal("2023-01"), name: z.string() })
+const r2_schema = z.object({ release: z.literal("2023-06"), title: z.string() })
+
+const Release = createVersionedEntity({
+  latestVersion: "2023-06",
+  versions: ["2023-01", "2023-06"],
+  versionMap: {
+    "2023-01": defineVersion({ initial: true, schema: r1_schema }),
+    "2023-06": defineVersion({
+      initial: false,
+      schema: r2_schema,
+      up(old: z.infer<typeof r1_schema>): z.infer<typeof r2_schema> {
+        return { release: "2023-06", title: old.name }
+      },
+    }),
+  },
+  getVersion: (data) => (data as any)?.release ?? null,
+})
+
+const AsyncEnvironment = createVersionedEntity({
+  latestVersion: 2,
+  versionMap: {
+    1: defineVersion({ initial: true, schema: v1_schema }),
+    2: defineVersion({
+      initial: false,
+      schema: v2_schema,
+      async up(old: z.infer<typeof v1_schema>): Promise<z.infer<typeof v2_schema>> {
+        await new Promise((resolve) => setTimeout(resolve, 1))
+
+        return { ...old, v: 2, variables: old.variables.map((v) => ({ ...v, masked: false })) }
+      },
+    }),
+  },
+  getVersion: versionField("v"),
+})
+
+const releaseFixturesDir = fileURLToPath(new URL("./fixtures/release", import.meta.url))
+
+describe("loadFixtures", () => {
+  it("loads the inputs per version and the expected outputs", () => {
+    const fixtures = loadFixtures(fixturesDir)
+
+    expect(Object.keys(fixtures.inputs)).toEqual(["1", "2"])
+    expect(Object.keys(fixtures.inputs[1]).sort()).toEqual(["basic", "empty"])
+    expect(Object.keys(fixtures.expected).sort()).toEqual(["basic", "empty"])
+    expect(fixtures.expected.empty).toEqual({ name: "empty", v: 2, variables: [] })
+  })
+
+  it("loads the folders of non-numeric versions when given the versions", () => {
+    expect(Object.keys(loadFixtures(releaseFixturesDir, Release.versions).inputs)).toEqual(["2023-01", "2023-06"])
+    expect(loadFixtures(releaseFixturesDir).inputs).toEqual({})
+  })
+})
+
+describe("testMigrations", () => {
+  describe("with fixtures directory", () => {
+    testMigrations(Environment, loadFixtures(fixturesDir))
+  })
+
+  describe("with inline fixtures", () => {
+    testMigrations(Environment, {
+      inputs: {
+        1: { masked: { name: "a", v: 1, variables: [{ name: "k", value: "v" }] } },
+      },
+      expected: {
+        masked: { name: "a", v: 2, variables: [{ name: "k", value: "v", masked: false }] },
+      },
+    })
+  })
+
+  describe("with async migrations", () => {
+    testMigrations(AsyncEnvironment, loadFixtures(fixturesDir))
+  })
+
+  describe("with non-numeric versions", () => {
+    testMigrations(Release, loadFixtures(releaseFixturesDir, Release.versions))
+
+    testMigrations(Release, {
+      inputs: { "2023-01": { inline: { release: "2023-01", name: "a" } } },
+      expected: { inline: { release: "2023-06", title: "a" } },
+    })
+  })
+})
+
+describe("toMigrateTo", () => {
+  it("passes when the data migrates to the expected value", async () => {
+    await expect({ name: "a", v: 1, variables: [] }).toMigrateTo(Environment, { name: "a", v: 2, variables: [] })
+  })
+
+  it("fails when the data migrates to a different value", async () => {
+    await expect(
+      expect({ name: "a", v: 1, variables: [] }).toMigrateTo(Environment, { name: "b", v: 2, variables: [] })
+    ).rejects.toThrow(/to migrate to/)
+  })
+
+  it("fails when the data could not be parsed", async () => {
+    await expect(expect({ name: "a" }).toMigrateTo(Environment, {})).rejects.toThrow(/VER_CHECK_FAIL/)
+  })
+
+  it("can be negated", async () => {
+    await expect({ name: "a", v: 1, variables: [] }).not.toMigrateTo(Environment, { name: "b", v: 2, variables: [] })
+  })
+})
+
+describe("toFailWith", () => {
+  it("passes when the parse fails with the given error type", () => {
+    expect(Environment.safeParse({ name: "a", v: 1, variables: "x" })).toFailWith("GIVEN_VER_VALIDATION_FAIL")
+    expect(Environment.safeParse({ name: "a", v: 3 })).toFailWith("INVALID_VER")
+  })
+
+  it("fails when the parse fails with a different error type", () => {
+    expect(() => expect(Environment.safeParse({ name: "a" })).toFailWith("INVALID_VER")).toThrow(
+      /but it failed with VER_CHECK_FAIL/
+    )
+  })
+
+  it("fails when the parse succeeds", () => {
+    expect(() =>
+      expect(Environment.safeParse({ name: "a", v: 2, variables: [] })).toFailWith("INVALID_VER")
+    ).toThrow(/but it succeeded/)
+  })
+})
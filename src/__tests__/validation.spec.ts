@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest"
+import { z } from "zod"
+import {
+  createVersionedEntity,
+  defineVersion,
+  entityReference,
+  entityRefUptoVersion,
+  type ValidationPolicy,
+} from "../index.js"
+
+const v1_schema = z.object({ v: z.literal(1), count: z.number() })
+const v2_schema = z.object({ v: z.literal(2), count: z.number() })
+const v3_schema = z.object({ v: z.literal(3), count: z.number(), label: z.string() })
+
+/**
+ * The v1 -> v2 migration is buggy (returns `count` as a string),
+ * while the v2 -> v3 migration happens to fix it up.
+ */
+function createTestEntity(validation?: ValidationPolicy) {
+  return createVersionedEntity({
+    latestVersion: 3,
+    versionMap: {
+      1: defineVersion({ initial: true, schema: v1_schema }),
+      2: defineVersion({
+        initial: false,
+        schema: v2_schema,
+        up(old: z.infer<typeof v1_schema>) {
+          return { v: 2, count: String(old.count) } as any
+        },
+      }),
+      3: defineVersion({
+        initial: false,
+        schema: v3_schema,
+        up(old: z.infer<typeof v2_schema>) {
+          return { v: 3 as const, count: Number(old.count), label: "x" }
+        },
+      }),
+    },
+    getVersion(data) {
+      return (data as any)?.v ?? null
+    },
+    validation,
+  })
+}
+
+const v1Data = { v: 1, count: 1 }
+
+describe("validation policy", () => {
+  it("validates every step by default", () => {
+    const entity = createTestEntity()
+
+    expect(entity.safeParse(v1Data)).toEqual({
+      type: "err",
+      error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL", version: 2 }),
+    })
+  })
+
+  it("validates every step in safeParseUpToVersion as well", () => {
+    const entity = createTestEntity()
+
+    expect(entity.safeParseUpToVersion(v1Data, 2)).toEqual({
+      type: "err",
+      error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL", version: 2 }),
+    })
+  })
+
+  it("only validates the final result with 'final'", () => {
+    const entity = createTestEntity("final")
+
+    expect(entity.safeParse(v1Data)).toEqual({
+      type: "ok",
+      value: { v: 3, count: 1, label: "x" },
+    })
+
+    expect(entity.safeParseUpToVersion(v1Data, 2)).toEqual({
+      type: "err",
+      error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL", version: 2 }),
+    })
+  })
+
+  it("does not validate the migrated data with 'none'", () => {
+    const entity = createTestEntity("none")
+
+    expect(entity.safeParseUpToVersion(v1Data, 2)).toEqual({
+      type: "ok",
+      value: { v: 2, count: "1" },
+    })
+  })
+
+  it("still validates the given data against its own version with 'none'", () => {
+    const entity = createTestEntity("none")
+
+    expect(entity.safeParse({ v: 1, count: "1" })).toEqual({
+      type: "err",
+      error: expect.objectContaining({ type: "GIVEN_VER_VALIDATION_FAIL", version: 1 }),
+    })
+  })
+
+  it("can be overridden per call", () => {
+    const entity = createTestEntity("none")
+
+    expect(entity.safeParse(v1Data, { validation: "each" }).type).toBe("err")
+    expect(entity.safeParseUpToVersion(v1Data, 2, { validation: "final" }).type).toBe("err")
+    expect(createTestEntity().safeParse(v1Data, { validation: "final" }).type).toBe("ok")
+  })
+
+  it("applies to the async parse functions", async () => {
+    const entity = createTestEntity("final")
+
+    expect((await entity.safeParseAsync(v1Data)).type).toBe("ok")
+    expect((await entity.safeParseAsync(v1Data, { validation: "each" })).type).toBe("err")
+  })
+
+  it("applies to the entity references", () => {
+    expect(() => entityReference(createTestEntity()).parse(v1Data)).toThrow()
+    expect(entityReference(createTestEntity(), { validation: "final" }).parse(v1Data)).toEqual({
+      v: 3,
+      count: 1,
+      label: "x",
+    })
+
+    expect(entityRefUptoVersion(createTestEntity("none"), 2).parse(v1Data)).toEqual({ v: 2, count: "1" })
+  })
+})
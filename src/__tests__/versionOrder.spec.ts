@@ -0,0 +1,225 @@
+import { describe, expect, expectTypeOf, it } from "vitest"
+import { z } from "zod"
+import { createVersionedEntity, defineVersion, probeSchemas } from "../index.js"
+
+const settings_2023_01 = z.object({
+  version: z.literal("2023-01"),
+  theme: z.string(),
+})
+
+const settings_2023_06 = z.object({
+  version: z.literal("2023-06"),
+  theme: z.enum(["light", "dark"]),
+})
+
+const settings_2023_10 = z.object({
+  version: z.literal("2023-10"),
+  theme: z.enum(["light", "dark"]),
+  fontSize: z.number(),
+})
+
+const Settings = createVersionedEntity({
+  latestVersion: "2023-10",
+  versions: ["2023-01", "2023-06", "2023-10"],
+  versionMap: {
+    "2023-01": defineVersion({
+      initial: true,
+      schema: settings_2023_01,
+    }),
+    "2023-06": defineVersion({
+      initial: false,
+      schema: settings_2023_06,
+      up(old: z.infer<typeof settings_2023_01>) {
+        return {
+          version: "2023-06" as const,
+          theme: old.theme === "dark" ? ("dark" as const) : ("light" as const),
+        }
+      },
+      down(data: z.infer<typeof settings_2023_06>) {
+        return { version: "2023-01" as const, theme: data.theme }
+      },
+    }),
+    "2023-10": defineVersion({
+      initial: false,
+      schema: settings_2023_10,
+      up(old: z.infer<typeof settings_2023_06>) {
+        return { version: "2023-10" as const, theme: old.theme, fontSize: 14 }
+      },
+      down(data: z.infer<typeof settings_2023_10>) {
+        return { version: "2023-06" as const, theme: data.theme }
+      },
+    }),
+  },
+  getVersion(data) {
+    const version = (data as any)?.version
+
+    return typeof version === "string" ? version : null
+  },
+})
+
+describe("entities with an explicit version order", () => {
+  it("migrates through the versions in the given order", () => {
+    expect(Settings.safeParse({ version: "2023-01", theme: "dark" })).toEqual({
+      type: "ok",
+      value: { version: "2023-10", theme: "dark", fontSize: 14 },
+    })
+  })
+
+  it("migrates down through the versions in the given order", () => {
+    expect(Settings.safeParseToVersion({ version: "2023-10", theme: "dark", fontSize: 12 }, "2023-01")).toEqual({
+      type: "ok",
+      value: { version: "2023-01", theme: "dark" },
+    })
+  })
+
+  it("parses up to a version of the order", () => {
+    expect(Settings.safeParseUpToVersion({ version: "2023-01", theme: "blue" }, "2023-06")).toEqual({
+      type: "ok",
+      value: { version: "2023-06", theme: "light" },
+    })
+
+    expect(Settings.safeParseUpToVersion({ version: "2023-10", theme: "dark", fontSize: 12 }, "2023-06")).toEqual({
+      type: "err",
+      error: { type: "INVALID_VER" },
+    })
+  })
+
+  it("checks versions up to a version of the order", () => {
+    expect(Settings.isUpToVersion({ version: "2023-06", theme: "dark" }, "2023-06")).toBe(true)
+    expect(Settings.isUpToVersion({ version: "2023-10", theme: "dark", fontSize: 12 }, "2023-06")).toBe(false)
+  })
+
+  it("reports versions that are not in the order as invalid", () => {
+    expect(Settings.safeParse({ version: "2024-01", theme: "dark" })).toEqual({
+      type: "err",
+      error: { type: "INVALID_VER" },
+    })
+  })
+
+  it("does not match versions inherited from Object.prototype", () => {
+    expect(Settings.is({ version: "constructor" })).toBe(false)
+    expect(Settings.isLatest({ version: "toString" })).toBe(false)
+    expect(Settings.safeParse({ version: "constructor" })).toEqual({ type: "err", error: { type: "INVALID_VER" } })
+    expect(() => Settings.getSchema("constructor" as any)).toThrow("Version constructor is not a version of the entity")
+  })
+
+  it("lists the versions in the given order", () => {
+    expect(Settings.versions).toEqual(["2023-01", "2023-06", "2023-10"])
+  })
+
+  it("narrows isUpToVersion with the given order", () => {
+    const data: unknown = { version: "2023-01", theme: "dark" }
+
+    if (Settings.isUpToVersion(data, "2023-06")) {
+      expectTypeOf(data).toEqualTypeOf<z.infer<typeof settings_2023_01> | z.infer<typeof settings_2023_06>>()
+    }
+
+    if (Settings.isUpToVersion(data, "2023-01")) {
+      expectTypeOf(data).toEqualTypeOf<z.infer<typeof settings_2023_01>>()
+    }
+  })
+
+  it("supports semver versions", () => {
+    const schema = z.object({ version: z.string(), count: z.number() })
+
+    const versionMap = {
+      "1.0.0": defineVersion({ initial: true, schema }),
+      "1.4.0": defineVersion({
+        initial: false,
+        schema,
+        up(old: z.infer<typeof schema>) {
+          return { version: "1.4.0", count: old.count + 1 }
+        },
+      }),
+      "1.10.0": defineVersion({
+        initial: false,
+        schema,
+        up(old: z.infer<typeof schema>) {
+          return { version: "1.10.0", count: old.count * 10 }
+        },
+      }),
+    }
+
+    const Counter = createVersionedEntity({
+      latestVersion: "1.10.0",
+      versions: ["1.0.0", "1.4.0", "1.10.0"],
+      versionMap,
+      getVersion: (data) => (data as any)?.version ?? null,
+    })
+
+    expect(Counter.safeParse({ version: "1.0.0", count: 1 })).toEqual({
+      type: "ok",
+      value: { version: "1.10.0", count: 20 },
+    })
+
+    expect(Counter.explain({ version: "1.0.0", count: 1 }).steps.map((step) => [step.fromVersion, step.toVersion])).toEqual([
+      ["1.0.0", "1.4.0"],
+      ["1.4.0", "1.10.0"],
+    ])
+  })
+
+  it("probes the schemas newest first in the given order", () => {
+    const getVersion = probeSchemas(
+      {
+        "2023-01": defineVersion({ initial: true, schema: settings_2023_01 }),
+        "2023-06": defineVersion({ initial: false, schema: settings_2023_06, up: (old: any) => old }),
+      },
+      ["2023-01", "2023-06"]
+    )
+
+    expect(getVersion({ version: "2023-06", theme: "dark" })).toBe("2023-06")
+    expect(getVersion({ version: "2023-01", theme: "blue" })).toBe("2023-01")
+  })
+
+  it("skips versions of the order missing from the version map when probing", () => {
+    const getVersion = probeSchemas(
+      { "2023-01": defineVersion({ initial: true, schema: settings_2023_01 }) },
+      ["2023-01", "constructor"]
+    )
+
+    expect(getVersion({ version: "2023-01", theme: "blue" })).toBe("2023-01")
+  })
+})
+
+describe("validateDefinition with an explicit version order", () => {
+  const schema = z.object({})
+
+  it("returns no diagnostics for a valid definition", () => {
+    expect(Settings.validateDefinition()).toEqual([])
+  })
+
+  it("reports versions of the map missing from the order and gaps in the order", () => {
+    const entity = createVersionedEntity({
+      latestVersion: "c",
+      versions: ["a", "b", "c"],
+      versionMap: {
+        a: defineVersion({ initial: true, schema }),
+        c: defineVersion({ initial: false, schema, up: (old: {}) => old }),
+        d: defineVersion({ initial: false, schema, up: (old: {}) => old }),
+      },
+      getVersion: () => null,
+    })
+
+    expect(entity.validateDefinition()).toEqual([
+      expect.objectContaining({ type: "UNLISTED_VER", key: "d" }),
+      expect.objectContaining({ type: "MISSING_VER", missingVer: "b" }),
+    ])
+  })
+
+  it("checks the initial versions against the order", () => {
+    const entity = createVersionedEntity({
+      latestVersion: "a",
+      versions: ["b", "a"],
+      versionMap: {
+        a: defineVersion({ initial: true, schema }),
+        b: defineVersion({ initial: false, schema, up: (old: {}) => old }),
+      },
+      getVersion: () => null,
+    })
+
+    expect(entity.validateDefinition()).toEqual([
+      expect.objectContaining({ type: "LOWEST_VER_NOT_INITIAL", ver: "b" }),
+      expect.objectContaining({ type: "INTERMEDIATE_MARKED_INITIAL", ver: "a" }),
+    ])
+  })
+})
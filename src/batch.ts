@@ -0,0 +1,154 @@
+import type { ParseError, ParseOptions, ParseResult, VersionId } from "./index.ts"
+
+/**
+ * Options accepted by `VersionedEntity.safeParseMany`.
+ */
+export type BatchParseOptions = ParseOptions & {
+  /**
+   * The maximum number of examples kept for each error type in the report. Defaults to `3`.
+   */
+  maxExamples?: number
+}
+
+/**
+ * An aggregated report of parsing a batch of items with `VersionedEntity.safeParseMany`.
+ */
+export type BatchReport = {
+  /**
+   * The number of items parsed.
+   */
+  total: number
+
+  /**
+   * The number of items that parsed successfully.
+   */
+  succeeded: number
+
+  /**
+   * The number of items that failed to parse.
+   */
+  failed: number
+
+  /**
+   * The number of items that parsed successfully and were migrated from an older version.
+   */
+  migrated: number
+
+  /**
+   * The number of items that parsed successfully and were already on the latest version.
+   */
+  alreadyLatest: number
+
+  /**
+   * The number of items per detected source version (including the ones that failed to parse).
+   * Items whose version could not be determined are not counted.
+   */
+  bySourceVersion: Record<VersionId, number>
+
+  /**
+   * The failures grouped by the `ParseResult` error type, with the first few examples of each.
+   */
+  failures: Partial<
+    Record<
+      ParseError["type"],
+      {
+        /**
+         * The number of items that failed with this error type.
+         */
+        count: number
+
+        /**
+         * The first few items that failed with this error type (see `maxExamples`).
+         */
+        examples: Array<{ index: number; error: ParseError }>
+      }
+    >
+  >
+}
+
+/**
+ * The result of `VersionedEntity.safeParseMany`.
+ */
+export type BatchParseResult<T> = {
+  /**
+   * The result of parsing each item, in the same order as the given items.
+   */
+  results: ParseResult<T>[]
+
+  /**
+   * The aggregated report of the batch.
+   */
+  report: BatchReport
+}
+
+/**
+ * Builds the aggregated report for a parsed batch.
+ * @param entries The detected source version and the result of each item, in order
+ * @param latestVersion The latest version of the entity
+ * @param maxExamples The maximum number of examples kept for each error type
+ */
+export function createBatchReport(
+  entries: Array<{ sourceVersion: VersionId | null; result: ParseResult<unknown> }>,
+  latestVersion: VersionId,
+  maxExamples: number
+): BatchReport {
+  const report: BatchReport = {
+    total: entries.length,
+    succeeded: 0,
+    failed: 0,
+    migrated: 0,
+    alreadyLatest: 0,
+    bySourceVersion: {},
+    failures: {},
+  }
+
+  entries.forEach(({ sourceVersion, result }, index) => {
+    if (sourceVersion !== null) {
+      report.bySourceVersion[sourceVersion] = (report.bySourceVersion[sourceVersion] ?? 0) + 1
+    }
+
+    if (result.type === "ok") {
+      report.succeeded++
+
+      if (sourceVersion === latestVersion) {
+        report.alreadyLatest++
+      } else {
+        report.migrated++
+      }
+
+      return
+    }
+
+    report.failed++
+
+    const group = (report.failures[result.error.type] ??= { count: 0, examples: [] })
+
+    group.count++
+
+    if (group.examples.length < maxExamples) {
+      group.examples.push({ index, error: result.error })
+    }
+  })
+
+  return report
+}
+
+/**
+ * Renders the report of a batch into a single line, for logging.
+ * @param report The report to render
+ *
+ * @example
+ * ```ts
+ * const { report } = Environment.safeParseMany(items)
+ *
+ * console.log(summarizeBatchReport(report))
+ * // 1000 items: 990 ok (400 migrated, 590 already latest), 10 failed (GIVEN_VER_VALIDATION_FAIL: 8, VER_CHECK_FAIL: 2)
+ * ```
+ */
+export function summarizeBatchReport(report: BatchReport): string {
+  const summary = `${report.total} items: ${report.succeeded} ok (${report.migrated} migrated, ${report.alreadyLatest} already latest), ${report.failed} failed`
+
+  const failures = Object.entries(report.failures).map(([type, group]) => `${type}: ${group!.count}`)
+
+  return failures.length > 0 ? `${summary} (${failures.join(", ")})` : summary
+}
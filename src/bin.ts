@@ -0,0 +1,16 @@
+#!/usr/bin/env node
+import { runCli } from "./cli.js"
+
+runCli(process.argv.slice(2), {
+  cwd: process.cwd(),
+  stdout: (line) => console.log(line),
+  stderr: (line) => console.error(line),
+}).then(
+  (exitCode) => {
+    process.exitCode = exitCode
+  },
+  (e) => {
+    console.error(e)
+    process.exitCode = 1
+  }
+)
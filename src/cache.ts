@@ -0,0 +1,85 @@
+/**
+ * The number of lookups in the parse cache of an entity that reused a previous result, and that did not.
+ */
+export type CacheStats = {
+  /**
+   * The number of lookups that reused a previous result.
+   */
+  hits: number
+
+  /**
+   * The number of lookups that had to validate (or migrate) the data.
+   */
+  misses: number
+}
+
+/**
+ * Caches the validation and migration results of an entity, keyed by the identity of the input object.
+ * Only objects (and arrays) are cached, other inputs are always computed.
+ *
+ * @package
+ */
+export class ParseCache {
+  private entries = new WeakMap<object, Map<string, unknown>>()
+
+  private stats: CacheStats = { hits: 0, misses: 0 }
+
+  /**
+   * Returns the result stored for the data under the key, if any, counting the lookup as a hit or a miss.
+   * @param data The input the result was computed for
+   * @param key What was computed for the input (like the target version of a migration)
+   */
+  public lookup<T>(data: unknown, key: string): { value: T } | undefined {
+    if (typeof data !== "object" || data === null) return undefined
+
+    const entry = this.entries.get(data)
+
+    if (entry?.has(key)) {
+      this.stats.hits++
+      return { value: entry.get(key) as T }
+    }
+
+    this.stats.misses++
+    return undefined
+  }
+
+  /**
+   * Stores the result computed for the data under the key.
+   * @param data The input the result was computed for
+   * @param key What was computed for the input
+   * @param value The result to store
+   */
+  public store<T>(data: unknown, key: string, value: T): T {
+    if (typeof data !== "object" || data === null) return value
+
+    let entry = this.entries.get(data)
+
+    if (!entry) {
+      entry = new Map()
+      this.entries.set(data, entry)
+    }
+
+    entry.set(key, value)
+
+    return value
+  }
+
+  /**
+   * Forgets the results stored for the data, or for all the inputs if no data is given.
+   * @param data The input whose results are forgotten
+   */
+  public invalidate(data?: unknown) {
+    if (data === undefined) {
+      this.entries = new WeakMap()
+    } else if (typeof data === "object" && data !== null) {
+      this.entries.delete(data)
+    }
+  }
+
+  /**
+   * Returns a snapshot of the hit and miss counters.
+   */
+  public getStats(): CacheStats {
+    return { ...this.stats }
+  }
+}
@@ -0,0 +1,325 @@
+import { readFile, writeFile } from "node:fs/promises"
+import { isAbsolute, resolve } from "node:path"
+import { pathToFileURL } from "node:url"
+import { parseArgs } from "node:util"
+import type { z } from "zod"
+import { describeParseError } from "./errors.js"
+import type { ParseError, ParseResult, VersionedEntity, VersionId } from "./index.ts"
+import { scaffoldMigration } from "./scaffold.js"
+
+/**
+ * Where the CLI reads from and writes its output to. Allows running the CLI programmatically (and in tests).
+ */
+export type CliIO = {
+  /**
+   * The directory the entity module and the files are resolved from.
+   */
+  cwd: string
+
+  /**
+   * Writes a line to the standard output.
+   */
+  stdout: (line: string) => void
+
+  /**
+   * Writes a line to the standard error.
+   */
+  stderr: (line: string) => void
+}
+
+const USAGE = `Usage:
+  verzod check --entity <module>#<export> <files...>
+  verzod migrate --entity <module>#<export> [--to <version>] [--write] <files...>
+  verzod scaffold --entity <module>#<export> --schema <module>#<export>
+
+Commands:
+  check     Reports the detected version and validity of each file
+  migrate   Migrates each file to the latest version (or to --to <version>)
+  scaffold  Prints a defineVersion block migrating the latest version to the schema given with --schema
+
+Options:
+  --entity  The module exporting the entity and the name of the export (defaults to the default export)
+  --to      The version to migrate to, instead of the latest version (migrate only)
+  --write   Rewrite the files with the migrated data, instead of only reporting (migrate only)
+  --schema  The module exporting the Zod schema of the new version and the name of the export (scaffold only)`
+
+/**
+ * Thrown for invalid usage of the CLI, makes the CLI print the usage and exit with code 2.
+ */
+class UsageError extends Error {}
+
+/**
+ * Loads an export from a `<module>#<export>` specifier.
+ * @param specifier The path to the module (relative to `cwd`) and optionally the name of the export
+ * @param cwd The directory to resolve the module from
+ */
+async function loadExport(specifier: string, cwd: string) {
+  const hashIndex = specifier.lastIndexOf("#")
+
+  const modulePath = hashIndex === -1 ? specifier : specifier.slice(0, hashIndex)
+  const exportName = hashIndex === -1 ? "default" : specifier.slice(hashIndex + 1)
+
+  let module: Record<string, any>
+
+  try {
+    module = await import(pathToFileURL(isAbsolute(modulePath) ? modulePath : resolve(cwd, modulePath)).href)
+  } catch (e) {
+    const code = typeof e === "object" && e !== null && "code" in e ? e.code : undefined
+
+    if (code === "ERR_UNKNOWN_FILE_EXTENSION" && /\.[cm]?ts$/.test(modulePath)) {
+      throw new UsageError(
+        `Could not load "${modulePath}": loading TypeScript modules needs a runtime that supports them (like Node.js with --experimental-strip-types, or tsx), or point --entity to the compiled JavaScript module`
+      )
+    }
+
+    throw new UsageError(`Could not load "${modulePath}": ${e instanceof Error ? e.message : String(e)}`)
+  }
+
+  return { modulePath, exportName, value: module[exportName] }
+}
+
+/**
+ * Loads the entity from a `<module>#<export>` specifier.
+ * @param specifier The path to the module (relative to `cwd`) and optionally the name of the export
+ * @param cwd The directory to resolve the module from
+ */
+async function loadEntity(specifier: string, cwd: string): Promise<VersionedEntity<any, any>> {
+  const { modulePath, exportName, value: entity } = await loadExport(specifier, cwd)
+
+  if (typeof entity?.safeParse !== "function" || typeof entity?.getVersion !== "function") {
+    throw new UsageError(`The export "${exportName}" of "${modulePath}" is not a versioned entity`)
+  }
+
+  return entity
+}
+
+/**
+ * Loads a Zod schema from a `<module>#<export>` specifier.
+ * @param specifier The path to the module (relative to `cwd`) and optionally the name of the export
+ * @param cwd The directory to resolve the module from
+ * @returns The schema and the name it is exported as (if it is not the default export)
+ */
+async function loadSchema(specifier: string, cwd: string): Promise<{ schema: z.ZodTypeAny; name?: string }> {
+  const { modulePath, exportName, value: schema } = await loadExport(specifier, cwd)
+
+  if (typeof schema?.safeParse !== "function" || typeof schema?._def !== "object") {
+    throw new UsageError(`The export "${exportName}" of "${modulePath}" is not a Zod schema`)
+  }
+
+  return { schema, name: exportName === "default" ? undefined : exportName }
+}
+
+/**
+ * Renders a parse error into the lines printed for a failing file: the message of the error,
+ * followed by the Zod issues of validation failures, one per line.
+ * @param error The parse error to render
+ */
+function describeError(error: ParseError): string[] {
+  const message = describeParseError(error)
+  const summary = `${message.charAt(0).toLowerCase()}${message.slice(1)}`
+
+  if (error.type !== "GIVEN_VER_VALIDATION_FAIL") return [summary]
+
+  return [
+    summary,
+    ...error.error.issues.map(
+      (issue) => `  - ${issue.path.length > 0 ? `${issue.path.join(".")}: ` : ""}${issue.message}`
+    ),
+  ]
+}
+
+/**
+ * Reads and parses a JSON file, reporting failures to the standard error.
+ * @param file The path of the file, as given on the command line
+ * @param io Where to read from and report to
+ */
+async function readJSONFile(file: string, io: CliIO): Promise<{ ok: true; data: unknown } | { ok: false }> {
+  try {
+    return { ok: true, data: JSON.parse(await readFile(resolve(io.cwd, file), "utf-8")) }
+  } catch (e) {
+    io.stderr(`${file}: could not read JSON (${e instanceof Error ? e.message : String(e)})`)
+    return { ok: false }
+  }
+}
+
+/**
+ * Reports the detected version and validity of each file.
+ * @returns Whether all the files are valid
+ */
+async function check(entity: VersionedEntity<any, any>, files: string[], io: CliIO) {
+  let allValid = true
+
+  for (const file of files) {
+    const read = await readJSONFile(file, io)
+
+    if (!read.ok) {
+      allValid = false
+      continue
+    }
+
+    const version = entity.getVersion(read.data)
+
+    if (entity.is(read.data)) {
+      io.stdout(`${file}: ok (v${version}${version === entity.latestVersion ? ", latest" : ""})`)
+      continue
+    }
+
+    allValid = false
+
+    const result = await entity.safeParseAsync(read.data)
+
+    const [summary, ...details] = describeError(
+      result.type === "err" ? result.error : { type: "INVALID_VER" }
+    )
+
+    io.stderr(`${file}: invalid${version !== null ? ` (v${version})` : ""}, ${summary}`)
+    details.forEach((line) => io.stderr(line))
+  }
+
+  return allValid
+}
+
+/**
+ * Migrates each file to the target version, rewriting them if `write` is set.
+ * @returns Whether all the files were migrated successfully
+ */
+async function migrate(
+  entity: VersionedEntity<any, any>,
+  files: string[],
+  options: { to: VersionId | undefined; write: boolean },
+  io: CliIO
+) {
+  let allMigrated = true
+
+  const target = options.to ?? entity.latestVersion
+
+  for (const file of files) {
+    const read = await readJSONFile(file, io)
+
+    if (!read.ok) {
+      allMigrated = false
+      continue
+    }
+
+    const version = entity.getVersion(read.data)
+
+    const result: ParseResult<unknown> =
+      options.to === undefined
+        ? await entity.safeParseAsync(read.data)
+        : await entity.safeParseUpToVersionAsync(read.data, options.to)
+
+    if (result.type === "err") {
+      allMigrated = false
+
+      const [summary, ...details] = describeError(result.error)
+
+      io.stderr(`${file}: failed${version !== null ? ` (v${version})` : ""}, ${summary}`)
+      details.forEach((line) => io.stderr(line))
+      continue
+    }
+
+    if (version === target) {
+      io.stdout(`${file}: already v${target}`)
+      continue
+    }
+
+    if (options.write) {
+      await writeFile(resolve(io.cwd, file), `${JSON.stringify(result.value, null, 2)}\n`)
+      io.stdout(`${file}: migrated v${version} -> v${target}`)
+    } else {
+      io.stdout(`${file}: would migrate v${version} -> v${target} (use --write to rewrite the file)`)
+    }
+  }
+
+  return allMigrated
+}
+
+/**
+ * Runs the `verzod` CLI with the given arguments.
+ * @param args The command line arguments (without the node executable and script path)
+ * @param io Where the CLI reads from and writes its output to
+ * @returns The exit code: `0` on success, `1` if any file failed and `2` on invalid usage
+ */
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  try {
+    const { positionals, values } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        entity: { type: "string" },
+        to: { type: "string" },
+        write: { type: "boolean", default: false },
+        schema: { type: "string" },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    })
+
+    if (values.help) {
+      io.stdout(USAGE)
+      return 0
+    }
+
+    const [command, ...files] = positionals
+
+    if (command !== "check" && command !== "migrate" && command !== "scaffold") {
+      throw new UsageError(command ? `Unknown command "${command}"` : "No command given")
+    }
+
+    if (!values.entity) {
+      throw new UsageError("The --entity option is required")
+    }
+
+    if (command === "scaffold") {
+      if (!values.schema) {
+        throw new UsageError("The --schema option is required")
+      }
+
+      if (files.length > 0 || values.to !== undefined || values.write) {
+        throw new UsageError("The scaffold command does not take files, --to or --write")
+      }
+
+      const entity = await loadEntity(values.entity, io.cwd)
+      const { schema, name } = await loadSchema(values.schema, io.cwd)
+
+      io.stdout(scaffoldMigration(entity, schema, { schemaName: name }))
+      return 0
+    }
+
+    if (values.schema !== undefined) {
+      throw new UsageError("The --schema option is only supported by scaffold")
+    }
+
+    if (files.length === 0) {
+      throw new UsageError("No files given")
+    }
+
+    if (command === "check" && (values.to !== undefined || values.write)) {
+      throw new UsageError("The --to and --write options are only supported by migrate")
+    }
+
+    const entity = await loadEntity(values.entity, io.cwd)
+
+    // Versions are matched by their string form, so both `--to 2` and `--to 2023-10` resolve
+    const to = values.to === undefined ? undefined : entity.versions.find((ver) => String(ver) === values.to)
+
+    if (values.to !== undefined && to === undefined) {
+      throw new UsageError(`Invalid version "${values.to}" given to --to`)
+    }
+
+    const success =
+      command === "check"
+        ? await check(entity, files, io)
+        : await migrate(entity, files, { to, write: values.write ?? false }, io)
+
+    return success ? 0 : 1
+  } catch (e) {
+    if (e instanceof UsageError || (e instanceof TypeError && "code" in e && String(e.code).startsWith("ERR_PARSE_ARGS"))) {
+      io.stderr(e.message)
+      io.stderr("")
+      io.stderr(USAGE)
+      return 2
+    }
+
+    throw e
+  }
+}
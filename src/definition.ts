@@ -0,0 +1,236 @@
+import type { Version, VersionId } from "./index.ts"
+
+/**
+ * A problem found in the definition of a Verzod entity by `validateDefinition`.
+ */
+export type DefinitionDiagnostic = {
+  /**
+   * A readable description of the problem.
+   */
+  message: string
+} & (
+  | {
+      /**
+       * A key of the version map is not an integer.
+       */
+      type: "NON_INTEGER_VER"
+
+      /**
+       * The offending key of the version map.
+       */
+      key: string
+    }
+  | {
+      /**
+       * A key of the version map is not in the `versions` list of the entity.
+       * Data of that version can never be parsed.
+       */
+      type: "UNLISTED_VER"
+
+      /**
+       * The offending key of the version map.
+       */
+      key: string
+    }
+  | {
+      /**
+       * The `latestVersion` of the entity is not defined in the version map.
+       */
+      type: "LATEST_VER_MISSING"
+
+      /**
+       * The latest version of the entity.
+       */
+      latestVersion: VersionId
+    }
+  | {
+      /**
+       * The version map has a version above the `latestVersion` of the entity.
+       * Data of that version can never be parsed.
+       */
+      type: "VER_ABOVE_LATEST"
+
+      /**
+       * The offending version.
+       */
+      ver: VersionId
+    }
+  | {
+      /**
+       * A version between the lowest version and the `latestVersion` is missing from the version map.
+       * Parsing data older than this version fails with `BUG_NO_INTERMEDIATE_FOUND`.
+       */
+      type: "MISSING_VER"
+
+      /**
+       * The version that is missing from the version map.
+       */
+      missingVer: VersionId
+    }
+  | {
+      /**
+       * The lowest version of the version map is not marked as initial.
+       */
+      type: "LOWEST_VER_NOT_INITIAL"
+
+      /**
+       * The offending version.
+       */
+      ver: VersionId
+    }
+  | {
+      /**
+       * A version other than the lowest version is marked as initial.
+       * Parsing data older than this version fails with `BUG_INTERMEDIATE_MARKED_INITIAL`.
+       */
+      type: "INTERMEDIATE_MARKED_INITIAL"
+
+      /**
+       * The offending version.
+       */
+      ver: VersionId
+    }
+  | {
+      /**
+       * A shortcut does not migrate up between two versions of the version map.
+       * The shortcut is never taken.
+       */
+      type: "INVALID_SHORTCUT"
+
+      /**
+       * The version the shortcut migrates from.
+       */
+      from: VersionId
+
+      /**
+       * The version the shortcut migrates to.
+       */
+      to: VersionId
+    }
+)
+
+/**
+ * Checks the version map of an entity for mistakes that would otherwise
+ * only be discovered at parse time.
+ * @param versionMap The version map of the entity
+ * @param latestVersion The latest version of the entity
+ * @param order The explicit order of the versions, if the entity was defined with one
+ * @param shortcuts The shortcuts of the entity
+ * @returns All the problems found, empty if the definition is valid
+ */
+export function validateVersionMap(
+  versionMap: Record<VersionId, Version<any, any>>,
+  latestVersion: VersionId,
+  order?: readonly VersionId[],
+  shortcuts: ReadonlyArray<{ from: VersionId; to: VersionId }> = []
+): DefinitionDiagnostic[] {
+  const diagnostics: DefinitionDiagnostic[] = []
+
+  let sequence: VersionId[]
+
+  if (order) {
+    for (const key of Object.keys(versionMap)) {
+      if (!order.some((ver) => String(ver) === key)) {
+        diagnostics.push({
+          type: "UNLISTED_VER",
+          key,
+          message: `Version map key "${key}" is not in the versions list`,
+        })
+      }
+    }
+
+    sequence = [...order]
+  } else {
+    const integers: number[] = []
+
+    for (const key of Object.keys(versionMap)) {
+      if (!/^-?\d+$/.test(key)) {
+        diagnostics.push({
+          type: "NON_INTEGER_VER",
+          key,
+          message: `Version map key "${key}" is not an integer version`,
+        })
+      } else {
+        integers.push(Number(key))
+      }
+    }
+
+    // Without an explicit order, the versions are the consecutive integers spanning the version map and the latest version
+    const bounds = Number.isInteger(latestVersion) ? [...integers, Number(latestVersion)] : integers
+    const lowest = Math.min(...bounds)
+
+    sequence =
+      integers.length === 0 ? [] : Array.from({ length: Math.max(...bounds) - lowest + 1 }, (_, i) => lowest + i)
+  }
+
+  const versions = sequence.filter((ver) => ver in versionMap)
+
+  if (!versions.includes(latestVersion)) {
+    diagnostics.push({
+      type: "LATEST_VER_MISSING",
+      latestVersion,
+      message: `The latest version (${latestVersion}) is not defined in the version map`,
+    })
+  }
+
+  const latestPos = sequence.indexOf(latestVersion)
+
+  if (latestPos !== -1) {
+    for (const ver of sequence.slice(latestPos + 1)) {
+      if (ver in versionMap) {
+        diagnostics.push({
+          type: "VER_ABOVE_LATEST",
+          ver,
+          message: `Version ${ver} is above the latest version (${latestVersion})`,
+        })
+      }
+    }
+  }
+
+  for (const { from, to } of shortcuts) {
+    const fromPos = versions.indexOf(from)
+
+    if (fromPos === -1 || versions.indexOf(to) <= fromPos) {
+      diagnostics.push({
+        type: "INVALID_SHORTCUT",
+        from,
+        to,
+        message: `The shortcut from version ${from} to version ${to} does not migrate up between two versions`,
+      })
+    }
+  }
+
+  if (versions.length === 0) return diagnostics
+
+  const lowest = versions[0]
+
+  for (const ver of sequence.slice(sequence.indexOf(lowest) + 1, latestPos === -1 ? undefined : latestPos)) {
+    if (!(ver in versionMap)) {
+      diagnostics.push({
+        type: "MISSING_VER",
+        missingVer: ver,
+        message: `Version ${ver} is missing from the version map`,
+      })
+    }
+  }
+
+  if (!versionMap[lowest].initial) {
+    diagnostics.push({
+      type: "LOWEST_VER_NOT_INITIAL",
+      ver: lowest,
+      message: `The lowest version (${lowest}) is not marked as initial`,
+    })
+  }
+
+  for (const ver of versions.slice(1)) {
+    if (versionMap[ver].initial) {
+      diagnostics.push({
+        type: "INTERMEDIATE_MARKED_INITIAL",
+        ver,
+        message: `Version ${ver} is marked as initial but is not the lowest version (${lowest})`,
+      })
+    }
+  }
+
+  return diagnostics
+}
@@ -0,0 +1,99 @@
+import type { z } from "zod"
+import type { DefinitionDiagnostic } from "./definition.ts"
+import type { ParseError } from "./index.ts"
+
+/**
+ * Renders the issues of a `ZodError` into a single line.
+ * @param error The `ZodError` to render
+ */
+function describeZodIssues(error: z.ZodError) {
+  return error.issues
+    .map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    )
+    .join("; ")
+}
+
+/**
+ * Builds a readable message for the given parse error.
+ * @param error The parse error to describe
+ */
+export function describeParseError(error: ParseError): string {
+  switch (error.type) {
+    case "VER_CHECK_FAIL":
+      return "Could not determine the version of the data"
+    case "INVALID_VER":
+      return "The version of the data is not a valid version of the entity"
+    case "GIVEN_VER_VALIDATION_FAIL":
+      return `The data does not match the schema of version ${error.version} (${describeZodIssues(error.error)})`
+    case "BUG_NO_INTERMEDIATE_FOUND":
+      return `Version ${error.missingVer} is missing from the version map of the entity`
+    case "BUG_INTERMEDIATE_MARKED_INITIAL":
+      return `Version ${error.ver} is an intermediate version but is marked as initial`
+    case "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE":
+      return `The migration of version ${error.ver} is async, use the async parse functions instead`
+    case "NO_DOWN_MIGRATION":
+      return `Version ${error.ver} does not define a \`down\` migration`
+    case "MIGRATION_THREW":
+      return `The migration from version ${error.fromVersion} to version ${error.toVersion} threw an error${
+        error.error instanceof Error ? ` (${error.error.message})` : ""
+      }`
+  }
+}
+
+/**
+ * The error thrown by the throwing parse functions (`parse`, `parseUpToVersion`, ...)
+ * of a `VersionedEntity`. Carries the same error as the `ParseResult` returned by their `safe` counterparts.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const env = Environment.parse(data)
+ * } catch (e) {
+ *   if (e instanceof VerzodError && e.error.type === "GIVEN_VER_VALIDATION_FAIL") {
+ *     console.log(e.error.error.issues)
+ *   }
+ * }
+ * ```
+ */
+export class VerzodError extends Error {
+  /**
+   * The underlying `ZodError` if the error is a `GIVEN_VER_VALIDATION_FAIL`,
+   * or the thrown value if the error is a `MIGRATION_THREW`.
+   */
+  public readonly cause?: unknown
+
+  constructor(
+    /**
+     * The error as it would be reported in the `ParseResult` of the `safe` parse functions.
+     */
+    public readonly error: ParseError
+  ) {
+    super(describeParseError(error))
+
+    this.name = "VerzodError"
+
+    if (error.type === "GIVEN_VER_VALIDATION_FAIL" || error.type === "MIGRATION_THREW") {
+      this.cause = error.error
+    }
+  }
+}
+
+/**
+ * The error thrown by `createVersionedEntity` when `strict` is enabled
+ * and the definition of the entity has problems.
+ */
+export class VerzodDefinitionError extends Error {
+  constructor(
+    /**
+     * All the problems found in the definition, as returned by `validateDefinition`.
+     */
+    public readonly diagnostics: DefinitionDiagnostic[]
+  ) {
+    super(
+      `Invalid entity definition:\n${diagnostics.map((diagnostic) => `  - ${diagnostic.message}`).join("\n")}`
+    )
+
+    this.name = "VerzodDefinitionError"
+  }
+}
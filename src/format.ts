@@ -0,0 +1,277 @@
+import type { z } from "zod"
+import { describeParseError } from "./errors.js"
+import type { ParseError, ParseResult, VersionId } from "./index.ts"
+
+/**
+ * Options accepted by `formatParseError`, `formatParseErrorLine` and `serializeParseError`.
+ */
+export type FormatParseErrorOptions = {
+  /**
+   * The name of the entity the data was parsed as, used in the messages (like `Environment`).
+   */
+  entityName?: string
+
+  /**
+   * The version detected for the data (as returned by `entity.getVersion`),
+   * for the errors that do not carry it.
+   */
+  version?: VersionId | null
+}
+
+/**
+ * A JSON-serializable form of a parse error, for structured logging.
+ */
+export type SerializedParseError = {
+  /**
+   * The type of the error (`VER_CHECK_FAIL`, `INVALID_VER`, ...).
+   */
+  type: ParseError["type"]
+
+  /**
+   * The name of the entity, if given.
+   */
+  entity: string | null
+
+  /**
+   * The version detected for the data, if given.
+   */
+  detectedVersion: VersionId | null
+
+  /**
+   * The single-line message of the error, as rendered by `formatParseErrorLine`.
+   */
+  message: string
+
+  /**
+   * How to fix the error, for the errors caused by the data or the entity definition.
+   */
+  hint: string | null
+
+  /**
+   * The Zod issues of a `GIVEN_VER_VALIDATION_FAIL`, empty for the other errors.
+   */
+  issues: Array<{ path: Array<string | number>; code: string; message: string }>
+
+  /**
+   * The version the data failed to validate against (`GIVEN_VER_VALIDATION_FAIL`).
+   */
+  version?: VersionId
+
+  /**
+   * The version missing from the version map (`BUG_NO_INTERMEDIATE_FOUND`).
+   */
+  missingVer?: VersionId
+
+  /**
+   * The offending version (`BUG_INTERMEDIATE_MARKED_INITIAL`, `BUG_ASYNC_MIGRATION_IN_SYNC_PARSE`, `NO_DOWN_MIGRATION`).
+   */
+  ver?: VersionId
+
+  /**
+   * The version the failing migration migrated from (`MIGRATION_THREW`).
+   */
+  fromVersion?: VersionId
+
+  /**
+   * The version the failing migration migrated to (`MIGRATION_THREW`).
+   */
+  toVersion?: VersionId
+
+  /**
+   * The message of the value thrown by the migration (`MIGRATION_THREW`).
+   */
+  cause?: string
+}
+
+/**
+ * Returns the error of a failed result, or the error itself.
+ */
+function errorOf(result: Extract<ParseResult<unknown>, { type: "err" }> | ParseError): ParseError {
+  return result.type === "err" ? result.error : result
+}
+
+/**
+ * Renders the path of a Zod issue, like `variables.0.key`.
+ */
+function formatIssuePath(issue: z.ZodIssue) {
+  return issue.path.length > 0 ? issue.path.join(".") : "(root)"
+}
+
+/**
+ * Returns how to fix the error, if it is caused by the data or the entity definition.
+ */
+function hintFor(error: ParseError, entityName: string | undefined): string | null {
+  const definition = `the definition of ${entityName ?? "the entity"}`
+
+  switch (error.type) {
+    case "VER_CHECK_FAIL":
+      return `Check that the data is ${entityName ? `a ${entityName}` : "an instance of the entity"} and that \`getVersion\` can read its version`
+    case "INVALID_VER":
+      return "The data may come from a newer release, or be above the version requested with `safeParseUpToVersion`"
+    case "GIVEN_VER_VALIDATION_FAIL":
+      return null
+    case "BUG_NO_INTERMEDIATE_FOUND":
+      return `This is a bug in ${definition}: add version ${error.missingVer} to the version map (\`validateDefinition\` reports all such problems)`
+    case "BUG_INTERMEDIATE_MARKED_INITIAL":
+      return `This is a bug in ${definition}: mark version ${error.ver} with \`initial: false\` and give it an \`up\` function`
+    case "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE":
+      return "Parse the data with `safeParseAsync` (or the other async parse functions)"
+    case "NO_DOWN_MIGRATION":
+      return `Define a \`down\` function on version ${error.ver} to migrate data below it`
+    case "MIGRATION_THREW":
+      return `Check the \`up\` (or \`down\`) function migrating from version ${error.fromVersion} to version ${error.toVersion}`
+  }
+}
+
+/**
+ * Returns the message of a value thrown by a migration. Values that cannot be converted
+ * to a string (like `Object.create(null)`) are described by their type, like `[object Object]`.
+ */
+function describeThrown(value: unknown): string {
+  if (value instanceof Error) return value.message
+
+  try {
+    return String(value)
+  } catch {
+    return Object.prototype.toString.call(value)
+  }
+}
+
+/**
+ * Lowercases the first letter of a sentence, to continue a message with it.
+ */
+function lowerFirst(sentence: string) {
+  return `${sentence.charAt(0).toLowerCase()}${sentence.slice(1)}`
+}
+
+/**
+ * Renders the subject of the messages, like `Environment (v2)`.
+ */
+function formatSubject(options: FormatParseErrorOptions) {
+  const name = options.entityName ?? "the entity"
+
+  return options.version !== undefined && options.version !== null ? `${name} (v${options.version})` : name
+}
+
+/**
+ * Renders a parse error into a readable multi-line message, for logs and error screens:
+ * a summary line with the entity and the detected version, the Zod issues of validation failures
+ * (one per line, with their paths) and a hint on how to fix the other errors.
+ *
+ * @param result The failed result of a parse function, or its error
+ * @param options The name of the entity and the detected version, included in the message
+ *
+ * @example
+ * ```ts
+ * const result = Environment.safeParse(data)
+ *
+ * if (result.type === "err") {
+ *   console.error(formatParseError(result, { entityName: "Environment", version: Environment.getVersion(data) }))
+ *   // Could not parse Environment (v1): the data does not match the schema of version 2
+ *   //   - variables.0.key: Expected string, received number
+ * }
+ * ```
+ */
+export function formatParseError(
+  result: Extract<ParseResult<unknown>, { type: "err" }> | ParseError,
+  options: FormatParseErrorOptions = {}
+): string {
+  const error = errorOf(result)
+
+  const summary =
+    error.type === "GIVEN_VER_VALIDATION_FAIL"
+      ? `The data does not match the schema of version ${error.version}`
+      : describeParseError(error)
+
+  const lines = [`Could not parse ${formatSubject(options)}: ${lowerFirst(summary)}`]
+
+  if (error.type === "GIVEN_VER_VALIDATION_FAIL") {
+    for (const issue of error.error.issues) {
+      lines.push(`  - ${formatIssuePath(issue)}: ${issue.message}`)
+    }
+  }
+
+  const hint = hintFor(error, options.entityName)
+
+  if (hint !== null) {
+    lines.push(`  Hint: ${hint}`)
+  }
+
+  return lines.join("\n")
+}
+
+/**
+ * Renders a parse error into a compact single line, like `formatParseError` without the hint.
+ *
+ * @param result The failed result of a parse function, or its error
+ * @param options The name of the entity and the detected version, included in the message
+ *
+ * @example
+ * ```ts
+ * formatParseErrorLine(result, { entityName: "Environment" })
+ * // Could not parse Environment: the data does not match the schema of version 2 (variables.0.key: Expected string, received number)
+ * ```
+ */
+export function formatParseErrorLine(
+  result: Extract<ParseResult<unknown>, { type: "err" }> | ParseError,
+  options: FormatParseErrorOptions = {}
+): string {
+  const summary = describeParseError(errorOf(result))
+
+  return `Could not parse ${formatSubject(options)}: ${lowerFirst(summary)}`
+}
+
+/**
+ * Converts a parse error into a JSON-serializable object, for structured logging.
+ * The Zod error, the version definition and the input of the failing migration are left out.
+ *
+ * @param result The failed result of a parse function, or its error
+ * @param options The name of the entity and the detected version, included in the object
+ *
+ * @example
+ * ```ts
+ * logger.warn("parse failed", serializeParseError(result, { entityName: "Environment" }))
+ * // { type: "INVALID_VER", entity: "Environment", detectedVersion: null, message: "...", hint: "...", issues: [] }
+ * ```
+ */
+export function serializeParseError(
+  result: Extract<ParseResult<unknown>, { type: "err" }> | ParseError,
+  options: FormatParseErrorOptions = {}
+): SerializedParseError {
+  const error = errorOf(result)
+
+  const serialized: SerializedParseError = {
+    type: error.type,
+    entity: options.entityName ?? null,
+    detectedVersion: options.version ?? null,
+    message: formatParseErrorLine(error, options),
+    hint: hintFor(error, options.entityName),
+    issues: [],
+  }
+
+  switch (error.type) {
+    case "GIVEN_VER_VALIDATION_FAIL":
+      serialized.version = error.version
+      serialized.issues = error.error.issues.map((issue) => ({
+        path: issue.path,
+        code: issue.code,
+        message: issue.message,
+      }))
+      break
+    case "BUG_NO_INTERMEDIATE_FOUND":
+      serialized.missingVer = error.missingVer
+      break
+    case "BUG_INTERMEDIATE_MARKED_INITIAL":
+    case "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE":
+    case "NO_DOWN_MIGRATION":
+      serialized.ver = error.ver
+      break
+    case "MIGRATION_THREW":
+      serialized.fromVersion = error.fromVersion
+      serialized.toVersion = error.toVersion
+      serialized.cause = describeThrown(error.error)
+      break
+  }
+
+  return serialized
+}
@@ -1,5 +1,92 @@
 import { z } from "zod"
 import type { VersionsUpTo } from "./types.ts"
+import { ParseCache, type CacheStats } from "./cache.js"
+import { createBatchReport, type BatchParseOptions, type BatchParseResult } from "./batch.js"
+import { validateVersionMap, type DefinitionDiagnostic } from "./definition.js"
+import { describeParseError, VerzodDefinitionError, VerzodError } from "./errors.js"
+import {
+  createJSONSchemaBundle,
+  JSON_SCHEMA_DIALECT,
+  unwrapObject,
+  zodToJSONSchema,
+  type JSONSchema,
+  type JSONSchemaBundleOptions,
+} from "./jsonSchema.js"
+import { diffValues, type MigrationStep, type MigrationTrace } from "./trace.js"
+
+export {
+  summarizeBatchReport,
+  type BatchParseOptions,
+  type BatchParseResult,
+  type BatchReport,
+} from "./batch.js"
+export { type CacheStats } from "./cache.js"
+export { type DefinitionDiagnostic } from "./definition.js"
+export { VerzodDefinitionError, VerzodError } from "./errors.js"
+export {
+  formatParseError,
+  formatParseErrorLine,
+  serializeParseError,
+  type FormatParseErrorOptions,
+  type SerializedParseError,
+} from "./format.js"
+export {
+  zodToJSONSchema,
+  type JSONSchema,
+  type JSONSchemaBundleOptions,
+} from "./jsonSchema.js"
+export {
+  createEntityRegistry,
+  EntityRegistry,
+  type EntityRegistryOptions,
+  type RegistryParseError,
+  type RegistryParseResult,
+} from "./registry.js"
+export { scaffoldMigration, type ScaffoldOptions } from "./scaffold.js"
+export {
+  describeZodType,
+  diffSchemas,
+  diffVersions,
+  summarizeVersionDiff,
+  type SchemaChange,
+  type VersionDiff,
+} from "./schemaDiff.js"
+export {
+  createJSONFileAdapter,
+  createMemoryAdapter,
+  createVersionedStore,
+  VersionedStore,
+  type StoreAdapter,
+  type StoreInput,
+  type StoreMigrationReport,
+  type VersionedStoreOptions,
+} from "./store.js"
+export {
+  parseVersionString,
+  probeSchemas,
+  versionAtPath,
+  versionField,
+  type VersionFieldOptions,
+  type VersionStrategy,
+} from "./strategies.js"
+export {
+  migrateStream,
+  stringifyNDJSON,
+  type MigrateStreamOptions,
+  type StreamFailure,
+} from "./stream.js"
+export {
+  diffValues,
+  type MigrationStep,
+  type MigrationTrace,
+  type ValueChange,
+} from "./trace.js"
+
+/**
+ * Identifies a version of an entity. Versions are consecutive integers by default,
+ * other identifiers (like `"2023-10"` or `"1.4.0"`) need an explicit order (see the `versions` option of `createVersionedEntity`).
+ */
+export type VersionId = string | number
 
 /**
  * Defines a version of a Verzod entity schema and how to upgrade from the previous version.
@@ -31,9 +118,26 @@ export type Version<NewScheme extends z.ZodType, OldScheme> = {
        * Note: This function is not expected to be fallible (throw errors) because
        * the data has already been validated against the previous version's schema
        * before this function is called. The getVersion function helps ensure the
-       * correct version is identified and validated before migration.
+       * correct version is identified and validated before migration. If it does throw,
+       * the parse functions report it as a `MIGRATION_THREW` error instead of rethrowing.
+       *
+       * The function may return a Promise, in which case the entity has to be
+       * parsed with the async variants (`safeParseAsync`, `safeParseUpToVersionAsync`
+       * or `entityReferenceAsync`).
+       */
+      up: (old: OldScheme) => z.infer<NewScheme> | Promise<z.infer<NewScheme>>
+
+      /**
+       * Migrate from this version of the schema back to the previous version.
+       * Optional, only required if you want to be able to downgrade data with `safeParseToVersion`.
+       * @param newer The data as in this version of the schema
+       *
+       * @returns The data as in the previous version of the schema
+       *
+       * Like `up`, the function may return a Promise, in which case the async
+       * variant (`safeParseToVersionAsync`) has to be used.
        */
-      up: (old: OldScheme) => z.infer<NewScheme>
+      down?: (newer: z.infer<NewScheme>) => OldScheme | Promise<OldScheme>
     }
 )
 
@@ -49,6 +153,38 @@ export const defineVersion = <NewScheme extends z.ZodType, OldScheme>(
   def: Version<NewScheme, OldScheme>
 ) => def
 
+/**
+ * A migration from a version of an entity directly to a later version, skipping the intermediate versions.
+ * Given to the `shortcuts` option of `createVersionedEntity`, the migrator takes them
+ * when they lead to fewer steps than the step-by-step chain.
+ */
+export type MigrationShortcut<M extends Record<VersionId, Version<any, any>> = Record<VersionId, Version<any, any>>> = {
+  [From in keyof M & VersionId]: {
+    [To in keyof M & VersionId]: {
+      /**
+       * The version the shortcut migrates from.
+       */
+      from: From
+
+      /**
+       * The version the shortcut migrates to.
+       */
+      to: To
+
+      /**
+       * Migrate from the `from` version of the schema to the `to` version.
+       * @param old The data as in the `from` version of the schema
+       *
+       * @returns The data as in the `to` version of the schema
+       *
+       * Like the `up` functions of the versions, the function may return a Promise,
+       * in which case the async variants of the parse functions have to be used.
+       */
+      up: (old: SchemaOf<M[From]>) => SchemaOf<M[To]> | Promise<SchemaOf<M[To]>>
+    }
+  }[keyof M & VersionId]
+}[keyof M & VersionId]
+
 /**
  * Extracts the final type from a version definition
  */
@@ -61,93 +197,316 @@ export type SchemaOf<T extends Version<any, any>> = T extends Version<infer S, a
  */
 export type ParseResult<T> =
   | { type: "ok"; value: T }
+  | { type: "err"; error: ParseError }
+
+/**
+ * The errors that can be reported when parsing a Verzod entity.
+ */
+export type ParseError =
   | {
-      type: "err"
-      error:
-        | {
-            /**
-             * The version of the data was not able to be determined by the entity definition.
-             * Most probably the data is not a valid entity.
-             */
-            type: "VER_CHECK_FAIL"
-          }
-        | {
-            /**
-             * The version of the data as determined by the entity definition
-             * is not a valid version as it is not defined in the entity's version map.
-             */
-            type: "INVALID_VER"
-          }
-        | {
-            /**
-             * The data is of a valid version but does not pass
-             * the schema validation for that version.
-             */
-            type: "GIVEN_VER_VALIDATION_FAIL"
-
-            /**
-             * The version of the data as determined by the entity definition.
-             */
-            version: number
-
-            /**
-             * The definition of the version of the data
-             * corresponding to the determined version
-             */
-            versionDef: Version<z.ZodType, unknown>
-
-            /**
-             * The `ZodError` returned by the schema validation.
-             */
-            error: z.ZodError
-          }
-        | {
-            /**
-             * Most likely an error in how the version was defined.
-             * The data is of a valid version but the entity definition
-             * lacks an intermediate version definition.
-             *
-             * Example: If you have 3 versions with the latest being version 3,
-             * and you have defined only version 3 and version 1 in the versionMap,
-             * then this error will be thrown when you try to parse a version 1 data,
-             * as Verzod will try to migrate from 1 to 2 and then from 2 to 3.
-             */
-            type: "BUG_NO_INTERMEDIATE_FOUND"
-
-            /**
-             * The version that is missing from the entity definition.
-             */
-            missingVer: number
-          }
-        | {
-            /**
-             * Most likely an error in how the version was defined.
-             * The data is of a valid version but the entity definition
-             * has marked an intermediate version as initial and thus
-             * does not have an `up` function to migrate from the previous version.
-             */
-            type: "BUG_INTERMEDIATE_MARKED_INITIAL"
-
-            /**
-             * The version that is marked as initial.
-             */
-            ver: number
-          }
+      /**
+       * The version of the data was not able to be determined by the entity definition.
+       * Most probably the data is not a valid entity.
+       */
+      type: "VER_CHECK_FAIL"
+    }
+  | {
+      /**
+       * The version of the data as determined by the entity definition
+       * is not a valid version as it is not defined in the entity's version map.
+       */
+      type: "INVALID_VER"
+    }
+  | {
+      /**
+       * The data is of a valid version but does not pass
+       * the schema validation for that version.
+       */
+      type: "GIVEN_VER_VALIDATION_FAIL"
+
+      /**
+       * The version of the data as determined by the entity definition.
+       */
+      version: VersionId
+
+      /**
+       * The definition of the version of the data
+       * corresponding to the determined version
+       */
+      versionDef: Version<z.ZodType, unknown>
+
+      /**
+       * The `ZodError` returned by the schema validation.
+       */
+      error: z.ZodError
+    }
+  | {
+      /**
+       * Most likely an error in how the version was defined.
+       * The data is of a valid version but the entity definition
+       * lacks an intermediate version definition.
+       *
+       * Example: If you have 3 versions with the latest being version 3,
+       * and you have defined only version 3 and version 1 in the versionMap,
+       * then this error will be thrown when you try to parse a version 1 data,
+       * as Verzod will try to migrate from 1 to 2 and then from 2 to 3.
+       */
+      type: "BUG_NO_INTERMEDIATE_FOUND"
+
+      /**
+       * The version that is missing from the entity definition.
+       */
+      missingVer: VersionId
+    }
+  | {
+      /**
+       * Most likely an error in how the version was defined.
+       * The data is of a valid version but the entity definition
+       * has marked an intermediate version as initial and thus
+       * does not have an `up` function to migrate from the previous version.
+       */
+      type: "BUG_INTERMEDIATE_MARKED_INITIAL"
+
+      /**
+       * The version that is marked as initial.
+       */
+      ver: VersionId
+    }
+  | {
+      /**
+       * The `up` (or `down`) function of a version in the migration chain returned a Promise
+       * while parsing synchronously. Use the async variants of the parse functions
+       * (`safeParseAsync`, `safeParseUpToVersionAsync`, `safeParseToVersionAsync`) for entities with async migrations.
+       */
+      type: "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE"
+
+      /**
+       * The version whose `up` (or `down`) function returned a Promise.
+       */
+      ver: VersionId
+    }
+  | {
+      /**
+       * The data is of a version newer than the requested version, but a version
+       * in the downgrade path does not define a `down` function to migrate to the previous version.
+       */
+      type: "NO_DOWN_MIGRATION"
+
+      /**
+       * The version that is missing the `down` function.
+       */
+      ver: VersionId
+    }
+  | {
+      /**
+       * An `up` (or `down`) function in the migration chain threw an error
+       * (or its Promise rejected). Most likely a bug in the migration function.
+       */
+      type: "MIGRATION_THREW"
+
+      /**
+       * The version of the data that was given to the migration function.
+       */
+      fromVersion: VersionId
+
+      /**
+       * The version the migration function was migrating to.
+       */
+      toVersion: VersionId
+
+      /**
+       * The data that was given to the migration function.
+       */
+      input: unknown
+
+      /**
+       * The value thrown by the migration function.
+       */
+      error: unknown
     }
 
+/**
+ * How the data produced by the migration functions is validated while migrating.
+ * The given data is always validated against the schema of its own version.
+ *
+ * - `"each"`: The output of every migration step is validated against the schema of its version (default).
+ * - `"final"`: Only the final migrated data is validated against the schema of the target version.
+ * - `"none"`: The output of the migration functions is not validated at all. Only use this for trusted hot paths.
+ */
+export type ValidationPolicy = "each" | "final" | "none"
+
+/**
+ * Options accepted by the parse functions of a `VersionedEntity`.
+ */
+export type ParseOptions = {
+  /**
+   * How the data produced by the migration functions is validated.
+   * Defaults to the `validation` policy the entity was created with.
+   */
+  validation?: ValidationPolicy
+}
+
+/**
+ * How `VersionedEntity` walks the migration chain between two versions.
+ */
+type MigrateOptions = {
+  /**
+   * How the output of the migration steps should be validated.
+   */
+  validation: ValidationPolicy
+
+  /**
+   * Whether data newer than the target version should be migrated down with the `down` functions.
+   * If `false`, such data is reported as `INVALID_VER`.
+   */
+  allowDown: boolean
+
+  /**
+   * Called after every migration function returns, with the data given to it and the data it returned.
+   */
+  onStep?: (step: Omit<MigrationStep, "changes">) => void
+}
+
+/**
+ * Returns the value of the given result or throws a `VerzodError` if it is an error.
+ * @param result The result to unwrap
+ */
+function unwrapParseResult<T>(result: ParseResult<T>): T {
+  if (result.type === "err") {
+    throw new VerzodError(result.error)
+  }
+
+  return result.value
+}
+
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "then" in value &&
+    typeof value.then === "function"
+  )
+}
+
+/**
+ * Returns the default order of the versions of an entity: the consecutive integers
+ * from the lowest integer version of the version map up to the latest (or highest) version.
+ * Versions missing from the version map are kept, to be reported as `BUG_NO_INTERMEDIATE_FOUND`.
+ */
+function consecutiveVersions(versionMap: Record<VersionId, unknown>, latestVersion: VersionId): number[] {
+  const versions = [...Object.keys(versionMap).map(Number), Number(latestVersion)].filter(Number.isInteger)
+
+  if (versions.length === 0) return []
+
+  const lowest = Math.min(...versions)
+
+  return Array.from({ length: Math.max(...versions) - lowest + 1 }, (_, i) => lowest + i)
+}
+
+/**
+ * A step of a planned migration, either to the next version or along a shortcut (with its `up` function).
+ */
+type MigrationEdge = {
+  from: VersionId
+  to: VersionId
+  up?: (old: any) => unknown
+}
+
+/**
+ * Returns the key the result of a migration is cached under, distinguishing the target and how the chain is walked.
+ */
+function migrationCacheKey(target: VersionId, options: MigrateOptions) {
+  return `migrate:${target}:${options.allowDown ? "down" : "up"}:${options.validation}`
+}
+
 export class VersionedEntity<
-  LatestVer extends number,
-  M extends Record<LatestVer, Version<any, any>> & Record<number, Version<any, any>>
+  LatestVer extends VersionId,
+  M extends Record<LatestVer, Version<any, any>> & Record<VersionId, Version<any, any>>,
+  Order extends readonly VersionId[] = []
 > {
+  /**
+   * The order of the versions the migration chain walks through.
+   */
+  private order: VersionId[]
+
+  /**
+   * The order of the versions given to `createVersionedEntity`, if any.
+   */
+  private explicitOrder?: readonly VersionId[]
+
   /**
    * @package
    */
 
   constructor(
     private versionMap: M,
-    private latestVersion: LatestVer,
-    private getVersion: (data: unknown) => number | null
-  ) {}
+
+    /**
+     * The latest version of the entity.
+     */
+    public readonly latestVersion: LatestVer,
+
+    /**
+     * Determines the version of the given data as defined by the entity definition,
+     * returns `null` if the version could not be determined.
+     */
+    public readonly getVersion: (data: unknown) => VersionId | null,
+
+    private validation: ValidationPolicy = "each",
+
+    private cache: ParseCache | null = null,
+
+    /**
+     * The explicit order of the versions, if the entity was defined with one.
+     */
+    versionOrder?: Order,
+
+    /**
+     * The migrations skipping intermediate versions, taken when they lead to fewer steps.
+     */
+    private shortcuts: ReadonlyArray<MigrationShortcut<any>> = []
+  ) {
+    this.explicitOrder = versionOrder
+    this.order = versionOrder ? [...versionOrder] : consecutiveVersions(versionMap, latestVersion)
+  }
+
+  /**
+   * Checks the definition of the entity for mistakes that would otherwise only be
+   * discovered at parse time (as `BUG_NO_INTERMEDIATE_FOUND` or `BUG_INTERMEDIATE_MARKED_INITIAL`),
+   * and only for data that happens to hit the broken path.
+   *
+   * Checks that all the version map keys are integers (or listed in the `versions` option), that `latestVersion` is defined,
+   * that the versions are contiguous up to `latestVersion`, that exactly the lowest version is marked as initial
+   * and that the shortcuts migrate up between two versions.
+   *
+   * @returns All the problems found, empty if the definition is valid
+   */
+  public validateDefinition(): DefinitionDiagnostic[] {
+    return validateVersionMap(this.versionMap, this.latestVersion, this.explicitOrder, this.shortcuts)
+  }
+
+  /**
+   * Returns the hit and miss counters of the parse cache (see the `cache` option of `createVersionedEntity`).
+   * Both are `0` if caching is not enabled.
+   */
+  public get cacheStats(): CacheStats {
+    return this.cache?.getStats() ?? { hits: 0, misses: 0 }
+  }
+
+  /**
+   * Forgets the cached validation and migration results of the given object, or of all objects if none is given.
+   * Needed after mutating an object that was already parsed, as the cache is keyed by object identity.
+   * @param data The object whose results are forgotten
+   *
+   * @example
+   * ```ts
+   * environment.variables.push(variable)
+   * Environment.invalidateCache(environment)
+   * ```
+   */
+  public invalidateCache(data?: unknown) {
+    this.cache?.invalidate(data)
+  }
 
   /**
    * Returns whether the given data is a valid entity of any version of the entity.
@@ -159,11 +518,11 @@ export class VersionedEntity<
 
     if (ver === null) return false
 
-    const verDef = this.versionMap[ver]
+    const verDef = this.ownVersionDef(ver)
 
     if (!verDef) return false
 
-    return verDef.schema.safeParse(data).success
+    return this.validateOwnVersion(data, ver, verDef).success
   }
 
   /**
@@ -178,11 +537,11 @@ export class VersionedEntity<
 
     if (ver !== this.latestVersion) return false
 
-    const verDef = this.versionMap[ver]
+    const verDef = this.ownVersionDef(ver)
 
     if (!verDef) return false
 
-    return verDef.schema.safeParse(data).success
+    return this.validateOwnVersion(data, ver, verDef).success
   }
 
   /**
@@ -208,94 +567,182 @@ export class VersionedEntity<
    * Note: This is particularly useful for recursive entity definitions where you want to ensure
    * nested entities are at a specific version or lower.
    */
-  public isUpToVersion<Ver extends (keyof M) & number>(
+  public isUpToVersion<Ver extends (keyof M) & VersionId>(
     data: unknown, upToVersion: Ver
-  ): data is SchemaOf<M[VersionsUpTo<keyof M, Ver>]> {
+  ): data is SchemaOf<M[VersionsUpTo<keyof M, Ver, Order>]> {
     let ver = this.getVersion(data)
 
     if (ver === null) return false
 
-    // If the version is above the upToVersion given, we consider it not matching and return false
-    if (ver > upToVersion) return false
+    const pos = this.order.indexOf(ver)
+
+    // If the version is unknown or above the upToVersion given, we consider it not matching and return false
+    if (pos === -1 || pos > this.order.indexOf(upToVersion)) return false
 
     const verDef = this.versionMap[ver]
 
     if (!verDef) return false
 
-    return verDef.schema.safeParse(data).success
+    return this.validateOwnVersion(data, ver, verDef).success
   }
 
   /**
    * Similar to Zod's `safeParse` method, but also migrates the data to the latest version.
    * @param data The data to parse
+   * @param options Options to override the entity's defaults for this call
    * @returns The result from parsing data, if successful, older versions are migrated to the latest version
    */
-  public safeParse(data: unknown): ParseResult<SchemaOf<M[LatestVer]>> {
-    const ver = this.getVersion(data)
-
-    if (ver === null) {
-      return { type: "err", error: { type: "VER_CHECK_FAIL" } }
-    }
-
-    const verDef = this.versionMap[ver]
+  public safeParse(data: unknown, options?: ParseOptions): ParseResult<SchemaOf<M[LatestVer]>> {
+    return this.migrate(data, this.latestVersion, this.migrateOptions(options, false))
+  }
 
-    if (!verDef) {
-      return { type: "err", error: { type: "INVALID_VER" } }
-    }
+  /**
+   * Async version of `safeParse`. Use this when any of the `up` functions in the
+   * version map return a Promise or when the schemas contain async refinements/transforms.
+   * Every step is validated with Zod's `safeParseAsync`.
+   * @param data The data to parse
+   * @param options Options to override the entity's defaults for this call
+   * @returns A Promise resolving to the result from parsing data, if successful, older versions are migrated to the latest version
+   */
+  public safeParseAsync(data: unknown, options?: ParseOptions): Promise<ParseResult<SchemaOf<M[LatestVer]>>> {
+    return this.migrateAsync(data, this.latestVersion, this.migrateOptions(options, false))
+  }
 
-    const pass = verDef.schema.safeParse(data)
+  /**
+   * Similar to Zod's `parse` method, parses the data and migrates it to the latest version.
+   * Unlike `safeParse`, this returns the value directly and throws on failure.
+   * @param data The data to parse
+   * @param options Options to override the entity's defaults for this call
+   * @returns The data, migrated to the latest version if it was of an older version
+   * @throws {VerzodError} If the data could not be parsed, carrying the same error `safeParse` would return
+   */
+  public parse(data: unknown, options?: ParseOptions): SchemaOf<M[LatestVer]> {
+    return unwrapParseResult(this.safeParse(data, options))
+  }
 
-    if (!pass.success) {
-      return {
-        type: "err",
-        error: {
-          type: "GIVEN_VER_VALIDATION_FAIL",
-          version: ver,
-          versionDef: verDef,
-          error: pass.error,
-        },
-      }
-    }
+  /**
+   * Async version of `parse`.
+   * @param data The data to parse
+   * @param options Options to override the entity's defaults for this call
+   * @returns A Promise resolving to the data, migrated to the latest version if it was of an older version
+   * @throws {VerzodError} If the data could not be parsed (the Promise rejects)
+   */
+  public async parseAsync(data: unknown, options?: ParseOptions): Promise<SchemaOf<M[LatestVer]>> {
+    return unwrapParseResult(await this.safeParseAsync(data, options))
+  }
 
-    let finalData = pass.data
+  /**
+   * Parses the data like `safeParse`, but also records how the data was migrated.
+   * Useful for debugging migrations and attaching to bug reports.
+   * @param data The data to parse
+   * @param options Options to override the entity's defaults for this call
+   * @returns The detected source version, the migration steps applied (with the value
+   *          after every step and the structural changes it made) and the `safeParse` result
+   *
+   * @example
+   * ```ts
+   * const trace = Environment.explain(v1_data)
+   *
+   * trace.sourceVersion // 1
+   * trace.steps // [{ fromVersion: 1, toVersion: 2, shortcut: false, input, output, changes: [{ type: "added", path: ["variables", 0, "masked"], after: false }] }]
+   * trace.result // { type: "ok", value: <v2 data> }
+   * ```
+   */
+  public explain(data: unknown, options?: ParseOptions): MigrationTrace<SchemaOf<M[LatestVer]>> {
+    const steps: MigrationStep[] = []
 
-    for (let up = ver + 1; up <= this.latestVersion; up++) {
-      const upDef = this.versionMap[up]
+    const result = this.migrate(data, this.latestVersion, {
+      ...this.migrateOptions(options, false),
+      onStep: (step) => steps.push({ ...step, changes: diffValues(step.input, step.output) }),
+    })
 
-      if (!upDef) {
-        return {
-          type: "err",
-          error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: up },
-        }
-      }
+    return {
+      sourceVersion: this.getVersion(data),
+      targetVersion: this.latestVersion,
+      steps,
+      result,
+    }
+  }
 
-      if (upDef.initial) {
-        return {
-          type: "err",
-          error: { type: "BUG_INTERMEDIATE_MARKED_INITIAL", ver: up },
-        }
-      }
+  /**
+   * Async version of `explain`, parses the data like `safeParseAsync` and records how the data was migrated.
+   * @param data The data to parse
+   * @param options Options to override the entity's defaults for this call
+   * @returns A Promise resolving to the trace of the migration
+   */
+  public async explainAsync(data: unknown, options?: ParseOptions): Promise<MigrationTrace<SchemaOf<M[LatestVer]>>> {
+    const steps: MigrationStep[] = []
 
-      const nextData = upDef.up(finalData)
+    const result = await this.migrateAsync(data, this.latestVersion, {
+      ...this.migrateOptions(options, false),
+      onStep: (step) => steps.push({ ...step, changes: diffValues(step.input, step.output) }),
+    })
 
-      const nextDataParseResult = upDef.schema.safeParse(nextData)
+    return {
+      sourceVersion: this.getVersion(data),
+      targetVersion: this.latestVersion,
+      steps,
+      result,
+    }
+  }
 
-      if (!nextDataParseResult.success) {
-        return {
-          type: "err",
-          error: {
-            type: "GIVEN_VER_VALIDATION_FAIL",
-            version: up,
-            versionDef: upDef,
-            error: nextDataParseResult.error
-          }
-        }
-      }
+  /**
+   * Parses (and if needed, migrates) a batch of items with `safeParse`,
+   * returning the result of each item along with an aggregated report of the batch.
+   * @param items The items to parse
+   * @param options Options to override the entity's defaults and to configure the report
+   * @returns The results of each item (in order) and the report, with counts per source version,
+   *          how many were migrated vs already latest and the failures grouped by error type
+   *
+   * @example
+   * ```ts
+   * const { results, report } = Environment.safeParseMany(storedDocuments)
+   *
+   * console.log(summarizeBatchReport(report))
+   *
+   * if (report.failed > 0) {
+   *   // Decide whether to abort
+   * }
+   * ```
+   */
+  public safeParseMany(
+    items: Iterable<unknown>,
+    options: BatchParseOptions = {}
+  ): BatchParseResult<SchemaOf<M[LatestVer]>> {
+    const entries = Array.from(items, (item) => ({
+      sourceVersion: this.getVersion(item),
+      result: this.safeParse(item, options),
+    }))
+
+    return {
+      results: entries.map((entry) => entry.result),
+      report: createBatchReport(entries, this.latestVersion, options.maxExamples ?? 3),
+    }
+  }
 
-      finalData = nextDataParseResult.data
+  /**
+   * Async version of `safeParseMany`, parses the items one after the other with `safeParseAsync`.
+   * @param items The items to parse
+   * @param options Options to override the entity's defaults and to configure the report
+   * @returns A Promise resolving to the results of each item (in order) and the report
+   */
+  public async safeParseManyAsync(
+    items: Iterable<unknown>,
+    options: BatchParseOptions = {}
+  ): Promise<BatchParseResult<SchemaOf<M[LatestVer]>>> {
+    const entries: Array<{ sourceVersion: VersionId | null; result: ParseResult<SchemaOf<M[LatestVer]>> }> = []
+
+    for (const item of items) {
+      entries.push({
+        sourceVersion: this.getVersion(item),
+        result: await this.safeParseAsync(item, options),
+      })
     }
 
-    return { type: "ok", value: finalData }
+    return {
+      results: entries.map((entry) => entry.result),
+      report: createBatchReport(entries, this.latestVersion, options.maxExamples ?? 3),
+    }
   }
 
   /**
@@ -312,10 +759,96 @@ export class VersionedEntity<
   }
 
   /**
-   * Parses data and migrates it up to a specific version (not beyond).
-   * 
+   * Returns the versions of the entity (the keys of the version map), in the order they are migrated through.
+   *
+   * @example
+   * ```ts
+   * UserEntity.versions // [1, 2, 3]
+   * ```
+   */
+  public get versions(): Array<keyof M & VersionId> {
+    return this.order.filter((ver) => ver in this.versionMap)
+  }
+
+  /**
+   * Returns the versions data goes through when migrated up from a version to another,
+   * taking the shortcuts of the entity into account.
+   * @param from The version to migrate from
+   * @param to The version to migrate to
+   * @returns The versions from `from` to `to` (inclusive), or `null` if `to` is not above or equal to `from`
+   *
+   * @example
+   * ```ts
+   * // With `shortcuts: [{ from: 1, to: 3, up }]`
+   * Environment.getMigrationPath(1, 4) // [1, 3, 4]
+   * ```
+   */
+  public getMigrationPath(from: keyof M & VersionId, to: keyof M & VersionId): VersionId[] | null {
+    const fromPos = this.order.indexOf(from)
+    const toPos = this.order.indexOf(to)
+
+    if (fromPos === -1 || toPos === -1 || fromPos > toPos) return null
+
+    return [from, ...this.planUpMigration(fromPos, toPos).map((edge) => edge.to)]
+  }
+
+  /**
+   * Returns the Zod schema for a version of the entity.
+   * @param version The version whose schema is returned
+   * @throws If the version is not in the version map of the entity
+   *
+   * @example
+   * ```ts
+   * const v1Schema = UserEntity.getSchema(1)
+   * ```
+   */
+  public getSchema<Ver extends keyof M & VersionId>(version: Ver): M[Ver]["schema"] {
+    const versionDef = this.ownVersionDef(version)
+
+    if (!versionDef) {
+      throw new Error(`Version ${version} is not a version of the entity`)
+    }
+
+    return versionDef.schema
+  }
+
+  /**
+   * Returns a JSON Schema describing a version of the entity, derived from its Zod schema.
+   * Refinements and transforms cannot be represented and are described by the schema they are applied on.
+   * @param version The version to describe, defaults to the latest version
+   *
+   * @example
+   * ```ts
+   * fs.writeFileSync("environment.schema.json", JSON.stringify(Environment.toJSONSchema(), null, 2))
+   * ```
+   */
+  public toJSONSchema(version: keyof M & VersionId = this.latestVersion): JSONSchema {
+    return { $schema: JSON_SCHEMA_DIALECT, ...zodToJSONSchema(this.getSchema(version)) }
+  }
+
+  /**
+   * Returns a JSON Schema document describing every version of the entity, with the schema of each version
+   * under `$defs` (as `v1`, `v2`, ...) and a top-level `oneOf` referencing them.
+   * The version field is emitted as an (OpenAPI style) `discriminator` mapping its values to the versions.
+   * @param options Options to configure the bundle
+   *
+   * @example
+   * ```ts
+   * const bundle = Environment.toJSONSchemaBundle()
+   * // { $schema, $defs: { v1, v2 }, oneOf: [{ $ref: "#/$defs/v1" }, { $ref: "#/$defs/v2" }],
+   * //   discriminator: { propertyName: "v", mapping: { "1": "#/$defs/v1", "2": "#/$defs/v2" } } }
+   * ```
+   */
+  public toJSONSchemaBundle(options?: JSONSchemaBundleOptions): JSONSchema {
+    return createJSONSchemaBundle(this.versionMap, this.versions, options)
+  }
+
+  /**
+   * Parses data and migrates it up to a specific version (not beyond).
+   * 
    * @param data The data to parse and potentially migrate
    * @param version The target version to migrate to (will not migrate beyond this)
+   * @param options Options to override the entity's defaults for this call
    * @returns A ParseResult containing either the migrated data or an error.
    *          Returns { type: "err", error: { type: "INVALID_VER" } } if data version is higher than requested.
    * 
@@ -334,59 +867,640 @@ export class VersionedEntity<
    * functions from receiving future versions they weren't designed to handle.
    */
   public safeParseUpToVersion<
-    Ver extends keyof M & number
-  >(data: unknown, version: Ver): ParseResult<SchemaOf<M[Ver]>> {
+    Ver extends keyof M & VersionId
+  >(data: unknown, version: Ver, options?: ParseOptions): ParseResult<SchemaOf<M[Ver]>> {
+    return this.migrate(data, version, this.migrateOptions(options, false))
+  }
+
+  /**
+   * Async version of `safeParseUpToVersion`. Use this when any of the `up` functions
+   * in the version map return a Promise or when the schemas contain async refinements/transforms.
+   *
+   * @param data The data to parse and potentially migrate
+   * @param version The target version to migrate to (will not migrate beyond this)
+   * @param options Options to override the entity's defaults for this call
+   * @returns A Promise resolving to a ParseResult containing either the migrated data or an error.
+   */
+  public safeParseUpToVersionAsync<
+    Ver extends keyof M & VersionId
+  >(data: unknown, version: Ver, options?: ParseOptions): Promise<ParseResult<SchemaOf<M[Ver]>>> {
+    return this.migrateAsync(data, version, this.migrateOptions(options, false))
+  }
+
+  /**
+   * Parses data and migrates it up to a specific version (not beyond).
+   * Unlike `safeParseUpToVersion`, this returns the value directly and throws on failure.
+   *
+   * @param data The data to parse and potentially migrate
+   * @param version The target version to migrate to (will not migrate beyond this)
+   * @param options Options to override the entity's defaults for this call
+   * @returns The data, migrated up to the given version
+   * @throws {VerzodError} If the data could not be parsed, carrying the same error `safeParseUpToVersion` would return
+   */
+  public parseUpToVersion<
+    Ver extends keyof M & VersionId
+  >(data: unknown, version: Ver, options?: ParseOptions): SchemaOf<M[Ver]> {
+    return unwrapParseResult(this.safeParseUpToVersion(data, version, options))
+  }
+
+  /**
+   * Async version of `parseUpToVersion`.
+   *
+   * @param data The data to parse and potentially migrate
+   * @param version The target version to migrate to (will not migrate beyond this)
+   * @param options Options to override the entity's defaults for this call
+   * @returns A Promise resolving to the data, migrated up to the given version
+   * @throws {VerzodError} If the data could not be parsed (the Promise rejects)
+   */
+  public async parseUpToVersionAsync<
+    Ver extends keyof M & VersionId
+  >(data: unknown, version: Ver, options?: ParseOptions): Promise<SchemaOf<M[Ver]>> {
+    return unwrapParseResult(await this.safeParseUpToVersionAsync(data, version, options))
+  }
+
+  /**
+   * Parses data and migrates it to a specific version, migrating up with the `up` functions
+   * if the data is older than the target version, or down with the `down` functions if it is newer.
+   *
+   * @param data The data to parse and potentially migrate
+   * @param version The target version to migrate to
+   * @param options Options to override the entity's defaults for this call
+   * @returns A ParseResult containing either the migrated data or an error.
+   *          Returns { type: "err", error: { type: "NO_DOWN_MIGRATION", ver } } if a version
+   *          in the downgrade path does not define a `down` function.
+   *
+   * @example
+   * ```ts
+   * // Serve v4 data to a client that still speaks v2
+   * const result = entity.safeParseToVersion(v4Data, 2)
+   * // result will contain v2 data, migrated down through v3
+   * ```
+   */
+  public safeParseToVersion<
+    Ver extends keyof M & VersionId
+  >(data: unknown, version: Ver, options?: ParseOptions): ParseResult<SchemaOf<M[Ver]>> {
+    return this.migrate(data, version, this.migrateOptions(options, true))
+  }
+
+  /**
+   * Async version of `safeParseToVersion`. Use this when any of the `up` or `down` functions
+   * in the version map return a Promise or when the schemas contain async refinements/transforms.
+   *
+   * @param data The data to parse and potentially migrate
+   * @param version The target version to migrate to
+   * @param options Options to override the entity's defaults for this call
+   * @returns A Promise resolving to a ParseResult containing either the migrated data or an error.
+   */
+  public safeParseToVersionAsync<
+    Ver extends keyof M & VersionId
+  >(data: unknown, version: Ver, options?: ParseOptions): Promise<ParseResult<SchemaOf<M[Ver]>>> {
+    return this.migrateAsync(data, version, this.migrateOptions(options, true))
+  }
+
+  /**
+   * Resolves the options for walking the migration chain from the options given to a parse function.
+   * @param options The options given to the parse function
+   * @param allowDown Whether the parse function migrates down to the target version
+   */
+  private migrateOptions(options: ParseOptions | undefined, allowDown: boolean): MigrateOptions {
+    return {
+      validation: options?.validation ?? this.validation,
+      allowDown,
+    }
+  }
+
+  /**
+   * Validates the data against its own version and migrates it to the target version,
+   * reusing a cached result if caching is enabled.
+   * @param data The data to parse
+   * @param target The version to migrate to
+   * @param options How the migration chain should be walked
+   */
+  private migrate(data: unknown, target: VersionId, options: MigrateOptions): ParseResult<any> {
+    // Traced migrations (`explain`) need the migration functions to run
+    if (!this.cache || options.onStep) {
+      return this.walkMigrationChain(data, target, options)
+    }
+
+    const key = migrationCacheKey(target, options)
+    const cached = this.cache.lookup<ParseResult<any>>(data, key)
+
+    if (cached) return cached.value
+
+    const result = this.walkMigrationChain(data, target, options)
+
+    // The async parse functions should not reuse a failure caused by parsing synchronously
+    if (result.type === "err" && result.error.type === "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE") {
+      return result
+    }
+
+    return this.cache.store(data, key, result)
+  }
+
+  /**
+   * Async counterpart of `migrate`.
+   * @param data The data to parse
+   * @param target The version to migrate to
+   * @param options How the migration chain should be walked
+   */
+  private async migrateAsync(data: unknown, target: VersionId, options: MigrateOptions): Promise<ParseResult<any>> {
+    if (!this.cache || options.onStep) {
+      return this.walkMigrationChainAsync(data, target, options)
+    }
+
+    const key = migrationCacheKey(target, options)
+    const cached = this.cache.lookup<ParseResult<any>>(data, key)
+
+    if (cached) return cached.value
+
+    return this.cache.store(data, key, await this.walkMigrationChainAsync(data, target, options))
+  }
+
+  /**
+   * Returns the definition of the version, `undefined` if it is not in the version map.
+   * Versions read from the data can be any string, so keys inherited from `Object.prototype` are not matched.
+   * @param ver The version to look up
+   */
+  private ownVersionDef(ver: VersionId): Version<any, any> | undefined {
+    return Object.prototype.hasOwnProperty.call(this.versionMap, ver) ? this.versionMap[ver] : undefined
+  }
+
+  /**
+   * Validates the data against the schema of its own version, reusing a cached result if caching is enabled.
+   * @param data The data to validate
+   * @param ver The version of the data
+   * @param verDef The definition of the version
+   */
+  private validateOwnVersion(data: unknown, ver: VersionId, verDef: Version<any, any>): z.SafeParseReturnType<unknown, any> {
+    const cached = this.cache?.lookup<z.SafeParseReturnType<unknown, any>>(data, `validate:${ver}`)
+
+    if (cached) return cached.value
+
+    const result = verDef.schema.safeParse(data)
+
+    return this.cache ? this.cache.store(data, `validate:${ver}`, result) : result
+  }
+
+  /**
+   * Async counterpart of `validateOwnVersion`, validates with `safeParseAsync`.
+   * @param data The data to validate
+   * @param ver The version of the data
+   * @param verDef The definition of the version
+   */
+  private async validateOwnVersionAsync(
+    data: unknown,
+    ver: VersionId,
+    verDef: Version<any, any>
+  ): Promise<z.SafeParseReturnType<unknown, any>> {
+    const cached = this.cache?.lookup<z.SafeParseReturnType<unknown, any>>(data, `validate:${ver}`)
+
+    if (cached) return cached.value
+
+    const result = await verDef.schema.safeParseAsync(data)
+
+    return this.cache ? this.cache.store(data, `validate:${ver}`, result) : result
+  }
+
+  /**
+   * Walks the migration chain: validates the data against its own version and migrates it to the target version.
+   * @param data The data to parse
+   * @param target The version to migrate to
+   * @param options How the migration chain should be walked
+   */
+  private walkMigrationChain(data: unknown, target: VersionId, options: MigrateOptions): ParseResult<any> {
     const ver = this.getVersion(data)
 
     if (ver === null) {
       return { type: "err", error: { type: "VER_CHECK_FAIL" } }
     }
 
-    // Validate if the version is not greater than the requested version
-    if (ver > version) {
-      return { type: "err", error: { type: "INVALID_VER" } }
-    }
+    const verPos = this.order.indexOf(ver)
+    const targetPos = this.order.indexOf(target)
+
+    if (targetPos === -1) {
+      return { type: "err", error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: target } }
+    }
+
+    // Validate if the version is known and not greater than the requested version
+    if (verPos === -1 || (!options.allowDown && verPos > targetPos)) {
+      return { type: "err", error: { type: "INVALID_VER" } }
+    }
+
+    const verDef = this.versionMap[ver]
+
+    if (!verDef) {
+      return { type: "err", error: { type: "INVALID_VER" } }
+    }
+
+    const pass = this.validateOwnVersion(data, ver, verDef)
+
+    if (!pass.success) {
+      return {
+        type: "err",
+        error: {
+          type: "GIVEN_VER_VALIDATION_FAIL",
+          version: ver,
+          versionDef: verDef,
+          error: pass.error,
+        },
+      }
+    }
+
+    let finalData = pass.data
+
+    for (const edge of this.planUpMigration(verPos, targetPos)) {
+      const { from, to: up } = edge
+      const upDef = this.versionMap[up]
+
+      if (!upDef) {
+        return {
+          type: "err",
+          error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: up },
+        }
+      }
+
+      if (upDef.initial) {
+        return {
+          type: "err",
+          error: { type: "BUG_INTERMEDIATE_MARKED_INITIAL", ver: up },
+        }
+      }
+
+      let nextData: unknown
+
+      try {
+        nextData = edge.up ? edge.up(finalData) : upDef.up(finalData)
+      } catch (e) {
+        return {
+          type: "err",
+          error: { type: "MIGRATION_THREW", fromVersion: from, toVersion: up, input: finalData, error: e },
+        }
+      }
+
+      if (isPromiseLike(nextData)) {
+        // The Promise is dropped, so a rejection would otherwise surface as an unhandled rejection
+        Promise.resolve(nextData).catch(() => {})
+
+        return {
+          type: "err",
+          error: { type: "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE", ver: up },
+        }
+      }
+
+      options.onStep?.({ fromVersion: from, toVersion: up, shortcut: edge.up !== undefined, input: finalData, output: nextData })
+
+      if (options.validation !== "each") {
+        finalData = nextData
+        continue
+      }
+
+      const nextDataParseResult = upDef.schema.safeParse(nextData)
+
+      if (!nextDataParseResult.success) {
+        return {
+          type: "err",
+          error: {
+            type: "GIVEN_VER_VALIDATION_FAIL",
+            version: up,
+            versionDef: upDef,
+            error: nextDataParseResult.error
+          }
+        }
+      }
+
+      finalData = nextDataParseResult.data
+    }
+
+    for (let pos = verPos; pos > targetPos; pos--) {
+      const down = this.order[pos]
+      const prev = this.order[pos - 1]
+      const downDef = this.versionMap[down]
+
+      if (!downDef) {
+        return {
+          type: "err",
+          error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: down },
+        }
+      }
+
+      if (downDef.initial) {
+        return {
+          type: "err",
+          error: { type: "BUG_INTERMEDIATE_MARKED_INITIAL", ver: down },
+        }
+      }
+
+      if (!downDef.down) {
+        return {
+          type: "err",
+          error: { type: "NO_DOWN_MIGRATION", ver: down },
+        }
+      }
+
+      const prevDef = this.versionMap[prev]
+
+      if (!prevDef) {
+        return {
+          type: "err",
+          error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: prev },
+        }
+      }
+
+      let prevData: unknown
+
+      try {
+        prevData = downDef.down(finalData)
+      } catch (e) {
+        return {
+          type: "err",
+          error: { type: "MIGRATION_THREW", fromVersion: down, toVersion: prev, input: finalData, error: e },
+        }
+      }
+
+      if (isPromiseLike(prevData)) {
+        Promise.resolve(prevData).catch(() => {})
+
+        return {
+          type: "err",
+          error: { type: "BUG_ASYNC_MIGRATION_IN_SYNC_PARSE", ver: down },
+        }
+      }
+
+      options.onStep?.({ fromVersion: down, toVersion: prev, shortcut: false, input: finalData, output: prevData })
+
+      if (options.validation !== "each") {
+        finalData = prevData
+        continue
+      }
+
+      const prevDataParseResult = prevDef.schema.safeParse(prevData)
+
+      if (!prevDataParseResult.success) {
+        return {
+          type: "err",
+          error: {
+            type: "GIVEN_VER_VALIDATION_FAIL",
+            version: prev,
+            versionDef: prevDef,
+            error: prevDataParseResult.error
+          }
+        }
+      }
+
+      finalData = prevDataParseResult.data
+    }
+
+    if (options.validation === "final" && ver !== target) {
+      const targetDef = this.versionMap[target]
+      const finalDataParseResult = targetDef.schema.safeParse(finalData)
+
+      if (!finalDataParseResult.success) {
+        return {
+          type: "err",
+          error: {
+            type: "GIVEN_VER_VALIDATION_FAIL",
+            version: target,
+            versionDef: targetDef,
+            error: finalDataParseResult.error
+          }
+        }
+      }
+
+      finalData = finalDataParseResult.data
+    }
+
+    return { type: "ok", value: finalData }
+  }
+
+  /**
+   * Plans the migration from the version at `fromPos` of the order up to the version at `toPos`,
+   * taking the shortcuts when they lead to fewer steps than the step-by-step chain.
+   * @param fromPos The position of the version of the data in the order
+   * @param toPos The position of the target version in the order
+   */
+  private planUpMigration(fromPos: number, toPos: number): MigrationEdge[] {
+    if (fromPos >= toPos) return []
+
+    // The versions only migrate up, so the fewest steps to each version can be found in a single pass over the order
+    const steps: number[] = []
+    const reachedBy: MigrationEdge[] = []
+
+    steps[fromPos] = 0
+
+    for (let pos = fromPos; pos < toPos; pos++) {
+      const edges: MigrationEdge[] = [
+        ...this.shortcuts.filter((shortcut) => shortcut.from === this.order[pos]),
+        { from: this.order[pos], to: this.order[pos + 1] },
+      ]
+
+      for (const edge of edges) {
+        const edgePos = this.order.indexOf(edge.to)
+
+        if (edgePos <= pos || edgePos > toPos) continue
+
+        if (steps[edgePos] === undefined || steps[pos] + 1 < steps[edgePos]) {
+          steps[edgePos] = steps[pos] + 1
+          reachedBy[edgePos] = edge
+        }
+      }
+    }
+
+    const path: MigrationEdge[] = []
+
+    for (let pos = toPos; pos !== fromPos; pos = this.order.indexOf(reachedBy[pos].from)) {
+      path.unshift(reachedBy[pos])
+    }
+
+    return path
+  }
+
+  /**
+   * Async counterpart of `walkMigrationChain`, awaits the migration functions and validates with `safeParseAsync`.
+   * @param data The data to parse
+   * @param target The version to migrate to
+   * @param options How the migration chain should be walked
+   */
+  private async walkMigrationChainAsync(data: unknown, target: VersionId, options: MigrateOptions): Promise<ParseResult<any>> {
+    const ver = this.getVersion(data)
+
+    if (ver === null) {
+      return { type: "err", error: { type: "VER_CHECK_FAIL" } }
+    }
+
+    const verPos = this.order.indexOf(ver)
+    const targetPos = this.order.indexOf(target)
+
+    if (targetPos === -1) {
+      return { type: "err", error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: target } }
+    }
+
+    // Validate if the version is known and not greater than the requested version
+    if (verPos === -1 || (!options.allowDown && verPos > targetPos)) {
+      return { type: "err", error: { type: "INVALID_VER" } }
+    }
+
+    const verDef = this.versionMap[ver]
+
+    if (!verDef) {
+      return { type: "err", error: { type: "INVALID_VER" } }
+    }
+
+    const pass = await this.validateOwnVersionAsync(data, ver, verDef)
+
+    if (!pass.success) {
+      return {
+        type: "err",
+        error: {
+          type: "GIVEN_VER_VALIDATION_FAIL",
+          version: ver,
+          versionDef: verDef,
+          error: pass.error,
+        },
+      }
+    }
+
+    let finalData = pass.data
+
+    for (const edge of this.planUpMigration(verPos, targetPos)) {
+      const { from, to: up } = edge
+      const upDef = this.versionMap[up]
+
+      if (!upDef) {
+        return {
+          type: "err",
+          error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: up },
+        }
+      }
+
+      if (upDef.initial) {
+        return {
+          type: "err",
+          error: { type: "BUG_INTERMEDIATE_MARKED_INITIAL", ver: up },
+        }
+      }
+
+      let nextData: unknown
+
+      try {
+        nextData = edge.up ? await edge.up(finalData) : await upDef.up(finalData)
+      } catch (e) {
+        return {
+          type: "err",
+          error: { type: "MIGRATION_THREW", fromVersion: from, toVersion: up, input: finalData, error: e },
+        }
+      }
+
+      options.onStep?.({ fromVersion: from, toVersion: up, shortcut: edge.up !== undefined, input: finalData, output: nextData })
+
+      if (options.validation !== "each") {
+        finalData = nextData
+        continue
+      }
+
+      const nextDataParseResult = await upDef.schema.safeParseAsync(nextData)
+
+      if (!nextDataParseResult.success) {
+        return {
+          type: "err",
+          error: {
+            type: "GIVEN_VER_VALIDATION_FAIL",
+            version: up,
+            versionDef: upDef,
+            error: nextDataParseResult.error
+          }
+        }
+      }
+
+      finalData = nextDataParseResult.data
+    }
+
+    for (let pos = verPos; pos > targetPos; pos--) {
+      const down = this.order[pos]
+      const prev = this.order[pos - 1]
+      const downDef = this.versionMap[down]
+
+      if (!downDef) {
+        return {
+          type: "err",
+          error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: down },
+        }
+      }
+
+      if (downDef.initial) {
+        return {
+          type: "err",
+          error: { type: "BUG_INTERMEDIATE_MARKED_INITIAL", ver: down },
+        }
+      }
 
-    const verDef = this.versionMap[ver]
+      if (!downDef.down) {
+        return {
+          type: "err",
+          error: { type: "NO_DOWN_MIGRATION", ver: down },
+        }
+      }
 
-    if (!verDef) {
-      return { type: "err", error: { type: "INVALID_VER" } }
-    }
+      const prevDef = this.versionMap[prev]
+
+      if (!prevDef) {
+        return {
+          type: "err",
+          error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: prev },
+        }
+      }
 
-    const pass = verDef.schema.safeParse(data)
+      let prevData: unknown
 
-    if (!pass.success) {
-      return {
-        type: "err",
-        error: {
-          type: "GIVEN_VER_VALIDATION_FAIL",
-          version: ver,
-          versionDef: verDef,
-          error: pass.error,
-        },
+      try {
+        prevData = await downDef.down(finalData)
+      } catch (e) {
+        return {
+          type: "err",
+          error: { type: "MIGRATION_THREW", fromVersion: down, toVersion: prev, input: finalData, error: e },
+        }
       }
-    }
 
-    let finalData = pass.data
+      options.onStep?.({ fromVersion: down, toVersion: prev, shortcut: false, input: finalData, output: prevData })
 
-    for (let up = ver + 1; up <= version; up++) {
-      const upDef = this.versionMap[up]
+      if (options.validation !== "each") {
+        finalData = prevData
+        continue
+      }
 
-      if (!upDef) {
+      const prevDataParseResult = await prevDef.schema.safeParseAsync(prevData)
+
+      if (!prevDataParseResult.success) {
         return {
           type: "err",
-          error: { type: "BUG_NO_INTERMEDIATE_FOUND", missingVer: up },
+          error: {
+            type: "GIVEN_VER_VALIDATION_FAIL",
+            version: prev,
+            versionDef: prevDef,
+            error: prevDataParseResult.error
+          }
         }
       }
 
-      if (upDef.initial) {
+      finalData = prevDataParseResult.data
+    }
+
+    if (options.validation === "final" && ver !== target) {
+      const targetDef = this.versionMap[target]
+      const finalDataParseResult = await targetDef.schema.safeParseAsync(finalData)
+
+      if (!finalDataParseResult.success) {
         return {
           type: "err",
-          error: { type: "BUG_INTERMEDIATE_MARKED_INITIAL", ver: up },
+          error: {
+            type: "GIVEN_VER_VALIDATION_FAIL",
+            version: target,
+            versionDef: targetDef,
+            error: finalDataParseResult.error
+          }
         }
       }
 
-      finalData = upDef.up(finalData)
+      finalData = finalDataParseResult.data
     }
 
     return { type: "ok", value: finalData }
@@ -459,40 +1573,143 @@ export type KnownEntityVersion<Entity extends VersionedEntity<any, any>> =
 /**
  * Creates a Verzod Versioned entity
  * @param def The definition of the entity
+ * @throws {VerzodDefinitionError} If `strict` is enabled and the definition has problems (see `validateDefinition`)
  */
 export function createVersionedEntity<
-  LatestVer extends number,
+  LatestVer extends VersionId,
   VersionMap extends Record<LatestVer, Version<any, any>> &
-    Record<number | LatestVer, Version<any, any>>
+    Record<VersionId | LatestVer, Version<any, any>>,
+  const Order extends readonly VersionId[] = []
 >(def: {
   versionMap: VersionMap
   latestVersion: LatestVer
-  getVersion: (data: unknown) => number | null
+  getVersion: (data: unknown) => VersionId | null
+
+  /**
+   * The versions of the entity, from the initial version to the latest one, for entities
+   * whose versions are not consecutive integers (like `"2023-10"` or `"1.4.0"`).
+   * The migration chain, `isUpToVersion` and `safeParseUpToVersion` follow this order.
+   * Defaults to the consecutive integers from the lowest version of the version map to `latestVersion`.
+   */
+  versions?: Order
+
+  /**
+   * Migrations from a version directly to a later version, skipping the intermediate versions
+   * (like a cheap `1 -> 9` transformation instead of eight `up` functions and validations).
+   * Parsing takes the path with the fewest steps, combining shortcuts and the step-by-step chain.
+   */
+  shortcuts?: Array<MigrationShortcut<VersionMap>>
+
+  /**
+   * Whether the definition should be validated when the entity is created,
+   * throwing a `VerzodDefinitionError` listing all the problems found. Defaults to `false`.
+   */
+  strict?: boolean
+
+  /**
+   * How the data produced by the migration functions is validated while parsing.
+   * Can be overridden per call with the `validation` option of the parse functions. Defaults to `"each"`.
+   */
+  validation?: ValidationPolicy
+
+  /**
+   * Whether the validation and migration results should be cached per input object (in a `WeakMap`, keyed by identity),
+   * so passing the same object to `is`, `safeParse` or a reference schema only validates and migrates it once.
+   * Cached results are shared, including the migrated values. Mutated objects have to be invalidated
+   * with `invalidateCache`. Defaults to `false`.
+   */
+  cache?: boolean
 }) {
-  return new VersionedEntity(def.versionMap, def.latestVersion, def.getVersion)
+  const entity = new VersionedEntity(
+    def.versionMap,
+    def.latestVersion,
+    def.getVersion,
+    def.validation,
+    def.cache ? new ParseCache() : null,
+    def.versions,
+    def.shortcuts
+  )
+
+  if (def.strict) {
+    const diagnostics = entity.validateDefinition()
+
+    if (diagnostics.length > 0) {
+      throw new VerzodDefinitionError(diagnostics)
+    }
+  }
+
+  return entity
+}
+
+/**
+ * The `params` of the custom Zod issues reported by the reference schemas (`entityReference`, `entityUnion`, ...)
+ * for entities that failed to parse, telling the failures apart.
+ */
+export type VerzodIssueParams = {
+  /**
+   * The type of the error the entity failed to parse with (`VER_CHECK_FAIL`, `INVALID_VER`, ...).
+   */
+  code: ParseError["type"]
+
+  /**
+   * The version detected for the data, `null` if it could not be determined.
+   */
+  version: VersionId | null
+}
+
+/**
+ * Reports the error of parsing a referenced entity as issues of the parent schema.
+ * Validation failures forward the issues of the `ZodError`, with their paths prefixed by the location of the reference.
+ * Other errors are reported as a custom issue with `VerzodIssueParams`.
+ * @param ctx The context of the reference schema
+ * @param error The error the entity failed to parse with
+ * @param version The version detected for the data
+ * @param path The path of the entity from the location of the reference (like the index of an item of `entityArray`)
+ */
+function addParseErrorIssue(
+  ctx: z.RefinementCtx,
+  error: ParseError,
+  version: VersionId | null,
+  path: Array<string | number> = []
+) {
+  if (error.type === "GIVEN_VER_VALIDATION_FAIL") {
+    for (const issue of error.error.issues) {
+      ctx.addIssue({ ...issue, path: [...path, ...issue.path] })
+    }
+
+    return
+  }
+
+  const params: VerzodIssueParams = { code: error.type, version }
+
+  ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    message: describeParseError(error),
+    path,
+    params,
+  })
 }
 
 /**
- * Creates a Zod schema that validates an entity reference. The schema will
- * also provide a transform that will migrate the entity to the latest version on successful validation.
+ * Creates a Zod schema that validates an entity reference. The schema validates and migrates
+ * the entity to the latest version in a single pass (with `safeParse`), and reports failures as issues
+ * of the parent schema instead of throwing.
  *
  * @param entity The instance of `VersionedEntity` to reference.
+ * @param options Options to override the entity's defaults when migrating
  *
  * NOTE: This assumes the schema has a floating (not dependent) version to the entity.
  */
-export function entityReference<Entity extends VersionedEntity<any, any>>(entity: Entity) {
+export function entityReference<Entity extends VersionedEntity<any, any>>(entity: Entity, options?: ParseOptions) {
   return z
-    .custom((data) => {
-      return entity.is(data)
-    })
-    .transform<InferredEntity<Entity>>((data) => {
-      const parseResult = entity.safeParse(data)
+    .custom()
+    .transform<InferredEntity<Entity>>((data, ctx) => {
+      const parseResult = entity.safeParse(data, options)
 
       if (parseResult.type !== "ok") {
-        // This should never happen unless you have a very weird/bad entity definition.
-        throw new Error(
-          "Invalid entity definition. `entity.is` returned success, safeParse failed."
-        )
+        addParseErrorIssue(ctx, parseResult.error, entity.getVersion(data))
+
+        return z.NEVER
       }
 
       return parseResult.value as InferredEntity<Entity>
@@ -506,6 +1723,7 @@ export function entityReference<Entity extends VersionedEntity<any, any>>(entity
  * 
  * @param entity The VersionedEntity to create a reference for
  * @param upToVersion The maximum version to migrate to
+ * @param options Options to override the entity's defaults when migrating
  * @returns A Zod schema that validates and migrates up to the specified version
  * 
  * @example
@@ -524,21 +1742,487 @@ export function entityReference<Entity extends VersionedEntity<any, any>>(entity
 export function entityRefUptoVersion<
   Entity extends VersionedEntity<any, any>,
   Version extends KnownEntityVersion<Entity>,
->(entity: Entity, upToVersion: Version) {
+>(entity: Entity, upToVersion: Version, options?: ParseOptions) {
+  return z
+    .custom()
+    .transform<InferredEntityUpToVersion<Entity, Version>>((data, ctx) => {
+      const parseResult = entity.safeParseUpToVersion(data, upToVersion, options)
+
+      if (parseResult.type !== "ok") {
+        addParseErrorIssue(ctx, parseResult.error, entity.getVersion(data))
+
+        return z.NEVER
+      }
+
+      return parseResult.value
+    })
+}
+
+/**
+ * Async version of `entityReference`. The returned schema migrates the entity with
+ * `safeParseAsync`, so it supports entities with async `up` functions. Like any Zod schema
+ * with async transforms, the parent schema has to be parsed with `parseAsync`/`safeParseAsync`.
+ *
+ * @param entity The instance of `VersionedEntity` to reference.
+ * @param options Options to override the entity's defaults when migrating
+ *
+ * @example
+ * ```ts
+ * const SyncedUser = z.object({
+ *   id: z.string(),
+ *   user: entityReferenceAsync(UserEntity)
+ * })
+ *
+ * const result = await SyncedUser.safeParseAsync(data)
+ * ```
+ */
+export function entityReferenceAsync<Entity extends VersionedEntity<any, any>>(entity: Entity, options?: ParseOptions) {
   return z
-    .custom((data) => {
-      return entity.isUpToVersion(data, upToVersion)
+    .custom()
+    .transform<InferredEntity<Entity>>(async (data, ctx) => {
+      const parseResult = await entity.safeParseAsync(data, options)
+
+      if (parseResult.type !== "ok") {
+        addParseErrorIssue(ctx, parseResult.error, entity.getVersion(data))
+
+        return z.NEVER
+      }
+
+      return parseResult.value as InferredEntity<Entity>
     })
-    .transform<InferredEntityUpToVersion<Entity, Version>>((data) => {
-      const parseResult = entity.safeParseUpToVersion(data, upToVersion)
+}
+
+/**
+ * Async version of `entityRefUptoVersion`. The returned schema migrates the entity with
+ * `safeParseUpToVersionAsync`, so it supports entities with async `up` functions.
+ * The parent schema has to be parsed with `parseAsync`/`safeParseAsync`.
+ *
+ * @param entity The VersionedEntity to create a reference for
+ * @param upToVersion The maximum version to migrate to
+ * @param options Options to override the entity's defaults when migrating
+ */
+export function entityRefUptoVersionAsync<
+  Entity extends VersionedEntity<any, any>,
+  Version extends KnownEntityVersion<Entity>,
+>(entity: Entity, upToVersion: Version, options?: ParseOptions) {
+  return z
+    .custom()
+    .transform<InferredEntityUpToVersion<Entity, Version>>(async (data, ctx) => {
+      const parseResult = await entity.safeParseUpToVersionAsync(data, upToVersion, options)
 
       if (parseResult.type !== "ok") {
-        // This should never happen unless you have a very weird/bad entity definition.
-        throw new Error(
-          "Invalid entity definition. `entity.isUpToVersion` returned success, safeParse failed."
-        )
+        addParseErrorIssue(ctx, parseResult.error, entity.getVersion(data))
+
+        return z.NEVER
       }
-      
+
       return parseResult.value
     })
 }
+
+/**
+ * Options accepted by `entityUnion` and `entityUnionAsync`.
+ */
+export type EntityUnionOptions = ParseOptions & {
+  /**
+   * The field of the data telling the entities apart. The data is parsed as the entity having a version
+   * whose schema accepts the value of this field (like `kind: z.literal("rest")`).
+   * If not given, the data is parsed as the first entity it parses as, in order.
+   */
+  discriminator?: string
+}
+
+/**
+ * Returns the entities the data can be parsed as, in order.
+ */
+function unionCandidates<Entity extends VersionedEntity<any, any>>(
+  entities: readonly Entity[],
+  data: unknown,
+  discriminator: string | undefined
+): Entity[] {
+  if (discriminator === undefined) return [...entities]
+
+  if (typeof data !== "object" || data === null) return []
+
+  const value = (data as Record<string, unknown>)[discriminator]
+
+  return entities.filter((entity) =>
+    entity.versions.some((version) => {
+      const property = unwrapObject(entity.getSchema(version))?.shape[discriminator]
+
+      return property !== undefined && property.safeParse(value).success
+    })
+  )
+}
+
+/**
+ * Ranks how far the data got when parsed as an entity, to pick the failure to report for a union:
+ * data of an unknown version ranks below data of a known version failing validation or migration.
+ */
+function unionFailureRank(error: ParseError) {
+  switch (error.type) {
+    case "VER_CHECK_FAIL":
+      return 0
+    case "INVALID_VER":
+      return 1
+    default:
+      return 2
+  }
+}
+
+/**
+ * Reports that the data matches none of the entities of a union.
+ * The error of the entity the data got the furthest with is reported like for `entityReference`.
+ */
+function addUnionIssue(
+  ctx: z.RefinementCtx,
+  data: unknown,
+  discriminator: string | undefined,
+  failures: Array<{ entity: VersionedEntity<any, any>; error: ParseError }>
+) {
+  if (failures.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `No entity matches the discriminator "${discriminator}"`,
+      path: discriminator === undefined ? [] : [discriminator],
+    })
+  } else {
+    const best = failures.reduce((best, failure) =>
+      unionFailureRank(failure.error) > unionFailureRank(best.error) ? failure : best
+    )
+
+    addParseErrorIssue(ctx, best.error, best.entity.getVersion(data))
+  }
+}
+
+/**
+ * Creates a Zod schema that validates data being one of several versioned entities, and migrates it
+ * to the latest version of the matching entity. The inferred type is the union of the latest types of the entities.
+ *
+ * @param entities The entities the data can be
+ * @param options The field telling the entities apart and options to override the entities' defaults when migrating
+ *
+ * @example
+ * ```ts
+ * const Body = z.object({
+ *   request: entityUnion([RestRequest, GQLRequest], { discriminator: "type" })
+ * })
+ *
+ * type Body = z.infer<typeof Body> // { request: InferredEntity<typeof RestRequest> | InferredEntity<typeof GQLRequest> }
+ * ```
+ */
+export function entityUnion<Entities extends readonly [VersionedEntity<any, any>, ...VersionedEntity<any, any>[]]>(
+  entities: Entities,
+  options: EntityUnionOptions = {}
+) {
+  return z
+    .custom()
+    .transform<InferredEntity<Entities[number]>>((data, ctx) => {
+      const failures: Array<{ entity: VersionedEntity<any, any>; error: ParseError }> = []
+
+      for (const entity of unionCandidates(entities, data, options.discriminator)) {
+        const parseResult = entity.safeParse(data, options)
+
+        if (parseResult.type === "ok") {
+          return parseResult.value
+        }
+
+        failures.push({ entity, error: parseResult.error })
+      }
+
+      addUnionIssue(ctx, data, options.discriminator, failures)
+
+      return z.NEVER
+    })
+}
+
+/**
+ * Async version of `entityUnion`. The returned schema migrates the entity with `safeParseAsync`,
+ * so it supports entities with async `up` functions. The parent schema has to be parsed with `parseAsync`/`safeParseAsync`.
+ *
+ * @param entities The entities the data can be
+ * @param options The field telling the entities apart and options to override the entities' defaults when migrating
+ */
+export function entityUnionAsync<Entities extends readonly [VersionedEntity<any, any>, ...VersionedEntity<any, any>[]]>(
+  entities: Entities,
+  options: EntityUnionOptions = {}
+) {
+  return z
+    .custom()
+    .transform<InferredEntity<Entities[number]>>(async (data, ctx) => {
+      const failures: Array<{ entity: VersionedEntity<any, any>; error: ParseError }> = []
+
+      for (const entity of unionCandidates(entities, data, options.discriminator)) {
+        const parseResult = await entity.safeParseAsync(data, options)
+
+        if (parseResult.type === "ok") {
+          return parseResult.value
+        }
+
+        failures.push({ entity, error: parseResult.error })
+      }
+
+      addUnionIssue(ctx, data, options.discriminator, failures)
+
+      return z.NEVER
+    })
+}
+
+/**
+ * Options accepted by `entityArray`, `entityRecord` and their async variants.
+ */
+export type EntityCollectionOptions = ParseOptions & {
+  /**
+   * What to do with the items that fail to parse:
+   * - `"fail"` reports them as issues, failing the whole collection (like `z.array(entityReference(entity))`)
+   * - `"drop"` leaves them out of the collection
+   * - `"collect"` leaves them out of the `items` of the collection, and lists them in its `rejected` items
+   *
+   * Defaults to `"fail"`.
+   */
+  onInvalid?: "fail" | "drop" | "collect"
+}
+
+/**
+ * An item of an `entityArray` or `entityRecord` collection that failed to parse.
+ */
+export type RejectedEntity<Key extends string | number> = {
+  /**
+   * The index of the item in the array, or its key in the record.
+   */
+  index: Key
+
+  /**
+   * The data of the item, as given to the collection.
+   */
+  data: unknown
+
+  /**
+   * The error the item failed to parse with.
+   */
+  error: ParseError
+}
+
+/**
+ * The value of an `entityArray` or `entityRecord` collection with `onInvalid: "collect"`.
+ */
+export type CollectedEntities<Items, Key extends string | number> = {
+  /**
+   * The items that parsed successfully, migrated to the latest version of the entity.
+   */
+  items: Items
+
+  /**
+   * The items that failed to parse, in order.
+   */
+  rejected: RejectedEntity<Key>[]
+}
+
+/**
+ * Sorts the parse results of the items of a collection into the migrated items and the rejected ones,
+ * reporting the rejected items as issues if `onInvalid` is `"fail"`.
+ * @returns The migrated items, or `null` if the collection failed
+ */
+function settleCollection<Key extends string | number>(
+  ctx: z.RefinementCtx,
+  entity: VersionedEntity<any, any>,
+  entries: Array<[Key, unknown]>,
+  results: ParseResult<unknown>[],
+  onInvalid: EntityCollectionOptions["onInvalid"] = "fail"
+): CollectedEntities<Array<[Key, unknown]>, Key> | null {
+  const collected: CollectedEntities<Array<[Key, unknown]>, Key> = { items: [], rejected: [] }
+
+  results.forEach((result, i) => {
+    const [index, data] = entries[i]
+
+    if (result.type === "ok") {
+      collected.items.push([index, result.value])
+    } else {
+      collected.rejected.push({ index, data, error: result.error })
+    }
+  })
+
+  if (onInvalid === "fail" && collected.rejected.length > 0) {
+    for (const { index, data, error } of collected.rejected) {
+      addParseErrorIssue(ctx, error, entity.getVersion(data), [index])
+    }
+
+    return null
+  }
+
+  return collected
+}
+
+/**
+ * Creates a Zod schema that validates an array of versioned entities, and migrates each item to the latest version.
+ * Unlike `z.array(entityReference(entity))`, invalid items can be dropped or collected instead of failing the whole array.
+ *
+ * @param entity The entity of the items
+ * @param options What to do with the invalid items, and options to override the entity's defaults when migrating
+ *
+ * @example
+ * ```ts
+ * const Collection = z.object({
+ *   requests: entityArray(Request, { onInvalid: "collect" })
+ * })
+ *
+ * const { requests } = Collection.parse(data)
+ *
+ * requests.items // The valid requests, migrated to the latest version
+ * requests.rejected // [{ index: 3, data: <the invalid request>, error: { type: "INVALID_VER" } }]
+ * ```
+ */
+export function entityArray<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: EntityCollectionOptions & { onInvalid: "collect" }
+): z.ZodType<CollectedEntities<InferredEntity<Entity>[], number>, z.ZodTypeDef, unknown[]>
+export function entityArray<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options?: EntityCollectionOptions
+): z.ZodType<InferredEntity<Entity>[], z.ZodTypeDef, unknown[]>
+export function entityArray<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: EntityCollectionOptions = {}
+): z.ZodTypeAny {
+  return z.array(z.unknown()).transform((data, ctx) => {
+    const entries = data.map((item, index): [number, unknown] => [index, item])
+
+    const collected = settleCollection(
+      ctx,
+      entity,
+      entries,
+      data.map((item) => entity.safeParse(item, options)),
+      options.onInvalid
+    )
+
+    if (!collected) return z.NEVER
+
+    const items = collected.items.map(([, item]) => item)
+
+    return options.onInvalid === "collect" ? { items, rejected: collected.rejected } : items
+  })
+}
+
+/**
+ * Async version of `entityArray`. The returned schema migrates the items with `safeParseAsync`,
+ * so it supports entities with async `up` functions. The parent schema has to be parsed with `parseAsync`/`safeParseAsync`.
+ *
+ * @param entity The entity of the items
+ * @param options What to do with the invalid items, and options to override the entity's defaults when migrating
+ */
+export function entityArrayAsync<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: EntityCollectionOptions & { onInvalid: "collect" }
+): z.ZodType<CollectedEntities<InferredEntity<Entity>[], number>, z.ZodTypeDef, unknown[]>
+export function entityArrayAsync<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options?: EntityCollectionOptions
+): z.ZodType<InferredEntity<Entity>[], z.ZodTypeDef, unknown[]>
+export function entityArrayAsync<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: EntityCollectionOptions = {}
+): z.ZodTypeAny {
+  return z.array(z.unknown()).transform(async (data, ctx) => {
+    const entries = data.map((item, index): [number, unknown] => [index, item])
+
+    const collected = settleCollection(
+      ctx,
+      entity,
+      entries,
+      await Promise.all(data.map((item) => entity.safeParseAsync(item, options))),
+      options.onInvalid
+    )
+
+    if (!collected) return z.NEVER
+
+    const items = collected.items.map(([, item]) => item)
+
+    return options.onInvalid === "collect" ? { items, rejected: collected.rejected } : items
+  })
+}
+
+/**
+ * Creates a Zod schema that validates a record of versioned entities, and migrates each value to the latest version.
+ * Like `entityArray`, invalid values can be dropped or collected instead of failing the whole record.
+ *
+ * @param entity The entity of the values
+ * @param options What to do with the invalid values, and options to override the entity's defaults when migrating
+ *
+ * @example
+ * ```ts
+ * const Workspace = z.object({
+ *   environments: entityRecord(Environment, { onInvalid: "drop" })
+ * })
+ *
+ * Workspace.parse({ environments: { a: <v1 environment>, b: <corrupt environment> } })
+ * // { environments: { a: <migrated environment> } }
+ * ```
+ */
+export function entityRecord<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: EntityCollectionOptions & { onInvalid: "collect" }
+): z.ZodType<CollectedEntities<Record<string, InferredEntity<Entity>>, string>, z.ZodTypeDef, Record<string, unknown>>
+export function entityRecord<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options?: EntityCollectionOptions
+): z.ZodType<Record<string, InferredEntity<Entity>>, z.ZodTypeDef, Record<string, unknown>>
+export function entityRecord<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: EntityCollectionOptions = {}
+): z.ZodTypeAny {
+  return z.record(z.unknown()).transform((data, ctx) => {
+    const entries = Object.entries(data)
+
+    const collected = settleCollection(
+      ctx,
+      entity,
+      entries,
+      entries.map(([, value]) => entity.safeParse(value, options)),
+      options.onInvalid
+    )
+
+    if (!collected) return z.NEVER
+
+    const items = Object.fromEntries(collected.items)
+
+    return options.onInvalid === "collect" ? { items, rejected: collected.rejected } : items
+  })
+}
+
+/**
+ * Async version of `entityRecord`. The returned schema migrates the values with `safeParseAsync`,
+ * so it supports entities with async `up` functions. The parent schema has to be parsed with `parseAsync`/`safeParseAsync`.
+ *
+ * @param entity The entity of the values
+ * @param options What to do with the invalid values, and options to override the entity's defaults when migrating
+ */
+export function entityRecordAsync<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: EntityCollectionOptions & { onInvalid: "collect" }
+): z.ZodType<CollectedEntities<Record<string, InferredEntity<Entity>>, string>, z.ZodTypeDef, Record<string, unknown>>
+export function entityRecordAsync<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options?: EntityCollectionOptions
+): z.ZodType<Record<string, InferredEntity<Entity>>, z.ZodTypeDef, Record<string, unknown>>
+export function entityRecordAsync<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: EntityCollectionOptions = {}
+): z.ZodTypeAny {
+  return z.record(z.unknown()).transform(async (data, ctx) => {
+    const entries = Object.entries(data)
+
+    const collected = settleCollection(
+      ctx,
+      entity,
+      entries,
+      await Promise.all(entries.map(([, value]) => entity.safeParseAsync(value, options))),
+      options.onInvalid
+    )
+
+    if (!collected) return z.NEVER
+
+    const items = Object.fromEntries(collected.items)
+
+    return options.onInvalid === "collect" ? { items, rejected: collected.rejected } : items
+  })
+}
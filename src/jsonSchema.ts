@@ -0,0 +1,374 @@
+import { z } from "zod"
+import type { VersionId } from "./index.ts"
+
+/**
+ * A JSON Schema document (or subschema), as emitted by `zodToJSONSchema`.
+ */
+export type JSONSchema = { [keyword: string]: unknown }
+
+/**
+ * The JSON Schema dialect the emitted schemas conform to.
+ */
+export const JSON_SCHEMA_DIALECT = "https://json-schema.org/draft/2020-12/schema"
+
+/**
+ * Converts the checks of a `ZodString` into JSON Schema keywords.
+ */
+function stringSchema(schema: z.ZodString): JSONSchema {
+  const result: JSONSchema = { type: "string" }
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "min":
+        result.minLength = check.value
+        break
+      case "max":
+        result.maxLength = check.value
+        break
+      case "length":
+        result.minLength = check.value
+        result.maxLength = check.value
+        break
+      case "email":
+        result.format = "email"
+        break
+      case "url":
+        result.format = "uri"
+        break
+      case "uuid":
+        result.format = "uuid"
+        break
+      case "datetime":
+        result.format = "date-time"
+        break
+      case "regex":
+        result.pattern = check.regex.source
+        break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Converts the checks of a `ZodNumber` into JSON Schema keywords.
+ */
+function numberSchema(schema: z.ZodNumber): JSONSchema {
+  const result: JSONSchema = { type: "number" }
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "int":
+        result.type = "integer"
+        break
+      case "min":
+        result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value
+        break
+      case "max":
+        result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value
+        break
+      case "multipleOf":
+        result.multipleOf = check.value
+        break
+    }
+  }
+
+  return result
+}
+
+/**
+ * Returns the JSON Schema type of a literal value.
+ */
+function literalType(value: unknown) {
+  if (value === null) return "null"
+
+  if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") {
+    return typeof value
+  }
+
+  return undefined
+}
+
+/**
+ * Converts a Zod schema into a JSON Schema describing the data the Zod schema accepts.
+ *
+ * Refinements and transforms (and thus entity references) cannot be represented,
+ * and are described by the schema they are applied on. Types without a JSON representation
+ * (like functions or promises) and recursive `z.lazy` references are emitted as `{}` (any value).
+ *
+ * @param schema The Zod schema to convert
+ */
+export function zodToJSONSchema(schema: z.ZodTypeAny): JSONSchema {
+  return convert(schema, new Set())
+}
+
+function convert(schema: z.ZodTypeAny, visiting: Set<z.ZodTypeAny>): JSONSchema {
+  const description = schema.description
+
+  const result = convertType(schema, visiting)
+
+  return description !== undefined ? { description, ...result } : result
+}
+
+function convertType(schema: z.ZodTypeAny, visiting: Set<z.ZodTypeAny>): JSONSchema {
+  if (schema instanceof z.ZodString) return stringSchema(schema)
+  if (schema instanceof z.ZodNumber) return numberSchema(schema)
+  if (schema instanceof z.ZodBigInt) return { type: "integer" }
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" }
+  if (schema instanceof z.ZodNull) return { type: "null" }
+  if (schema instanceof z.ZodDate) return { type: "string", format: "date-time" }
+  if (schema instanceof z.ZodNever) return { not: {} }
+
+  if (schema instanceof z.ZodLiteral) {
+    const type = literalType(schema.value)
+
+    return type ? { type, const: schema.value } : { const: schema.value }
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema.options] }
+  }
+
+  if (schema instanceof z.ZodNativeEnum) {
+    const enumObject: Record<string, string | number> = schema.enum
+    const values = Object.values(enumObject)
+
+    // Numeric enums have reverse mappings (value -> name) that are not valid values
+    const validValues = values.filter((value) => typeof value === "number" || typeof enumObject[value] !== "number")
+
+    return { enum: validValues }
+  }
+
+  if (schema instanceof z.ZodArray) {
+    const def = schema._def
+    const result: JSONSchema = { type: "array", items: convert(def.type, visiting) }
+
+    if (def.exactLength) {
+      result.minItems = def.exactLength.value
+      result.maxItems = def.exactLength.value
+    }
+    if (def.minLength) result.minItems = def.minLength.value
+    if (def.maxLength) result.maxItems = def.maxLength.value
+
+    return result
+  }
+
+  if (schema instanceof z.ZodSet) {
+    return { type: "array", uniqueItems: true, items: convert(schema._def.valueType, visiting) }
+  }
+
+  if (schema instanceof z.ZodTuple) {
+    const items = (schema.items as z.ZodTypeAny[]).map((item) => convert(item, visiting))
+    const rest = schema._def.rest as z.ZodTypeAny | null
+
+    return {
+      type: "array",
+      prefixItems: items,
+      minItems: items.length,
+      ...(rest ? { items: convert(rest, visiting) } : { maxItems: items.length }),
+    }
+  }
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>
+
+    const properties: Record<string, JSONSchema> = {}
+    const required: string[] = []
+
+    for (const [key, value] of Object.entries(shape)) {
+      properties[key] = convert(value, visiting)
+
+      if (!value.isOptional()) {
+        required.push(key)
+      }
+    }
+
+    const result: JSONSchema = { type: "object", properties }
+
+    if (required.length > 0) {
+      result.required = required
+    }
+
+    const catchall = schema._def.catchall as z.ZodTypeAny
+
+    if (!(catchall instanceof z.ZodNever)) {
+      result.additionalProperties = convert(catchall, visiting)
+    } else if (schema._def.unknownKeys === "strict") {
+      result.additionalProperties = false
+    }
+
+    return result
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return { type: "object", additionalProperties: convert(schema._def.valueType, visiting) }
+  }
+
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    const options = Array.from(schema.options as Iterable<z.ZodTypeAny>)
+
+    return { anyOf: options.map((option) => convert(option, visiting)) }
+  }
+
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [convert(schema._def.left, visiting), convert(schema._def.right, visiting)] }
+  }
+
+  if (schema instanceof z.ZodOptional) {
+    return convert(schema._def.innerType, visiting)
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [convert(schema._def.innerType, visiting), { type: "null" }] }
+  }
+
+  if (schema instanceof z.ZodDefault) {
+    return { ...convert(schema._def.innerType, visiting), default: schema._def.defaultValue() }
+  }
+
+  if (
+    schema instanceof z.ZodCatch ||
+    schema instanceof z.ZodReadonly
+  ) {
+    return convert(schema._def.innerType, visiting)
+  }
+
+  if (schema instanceof z.ZodBranded) {
+    return convert(schema._def.type, visiting)
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return convert(schema._def.schema, visiting)
+  }
+
+  if (schema instanceof z.ZodPipeline) {
+    return convert(schema._def.in, visiting)
+  }
+
+  if (schema instanceof z.ZodLazy) {
+    if (visiting.has(schema)) return {}
+
+    visiting.add(schema)
+
+    try {
+      return convert(schema._def.getter(), visiting)
+    } finally {
+      visiting.delete(schema)
+    }
+  }
+
+  // ZodAny, ZodUnknown and types without a JSON representation
+  return {}
+}
+
+/**
+ * Options accepted by `VersionedEntity.toJSONSchemaBundle`.
+ */
+export type JSONSchemaBundleOptions = {
+  /**
+   * The property holding the version of the entity, emitted as the `discriminator` of the bundle.
+   * If not given, it is detected from the version map: a property that is a literal
+   * in the (object) schema of every version, with a different value for each version
+   * (preferably the version number itself).
+   */
+  versionField?: string
+}
+
+/**
+ * Returns the `ZodObject` a schema is based on, looking through refinements, transforms and wrappers.
+ */
+export function unwrapObject(schema: z.ZodTypeAny): z.AnyZodObject | null {
+  if (schema instanceof z.ZodObject) return schema
+  if (schema instanceof z.ZodEffects) return unwrapObject(schema._def.schema)
+  if (schema instanceof z.ZodBranded) return unwrapObject(schema._def.type)
+  if (schema instanceof z.ZodPipeline) return unwrapObject(schema._def.in)
+  if (schema instanceof z.ZodReadonly || schema instanceof z.ZodCatch) return unwrapObject(schema._def.innerType)
+
+  return null
+}
+
+/**
+ * Returns the literal value of a property in the schema of a version, if it is one.
+ */
+function literalProperty(schema: z.ZodTypeAny, field: string): { value: unknown } | null {
+  const property = unwrapObject(schema)?.shape[field]
+
+  return property instanceof z.ZodLiteral ? { value: property.value } : null
+}
+
+/**
+ * Finds the property holding the version in the schemas of a version map, see `JSONSchemaBundleOptions.versionField`.
+ * Properties whose literal values are the version numbers (like `v: z.literal(2)`) are preferred.
+ */
+function detectVersionField(
+  versionMap: Record<VersionId, { schema: z.ZodTypeAny }>,
+  versions: VersionId[]
+): string | null {
+  if (versions.length === 0) return null
+
+  const candidates = Object.keys(unwrapObject(versionMap[versions[0]].schema)?.shape ?? {}).filter((field) => {
+    const values = versions.map((version) => literalProperty(versionMap[version].schema, field))
+
+    return (
+      values.every((value) => value !== null) &&
+      new Set(values.map((value) => value!.value)).size === values.length
+    )
+  })
+
+  const matchingVersions = candidates.find((field) =>
+    versions.every((version) => String(literalProperty(versionMap[version].schema, field)!.value) === String(version))
+  )
+
+  return matchingVersions ?? candidates[0] ?? null
+}
+
+/**
+ * Returns the reference to the definition of a version in the bundle, escaping it as a JSON Pointer.
+ */
+function definitionRef(version: VersionId) {
+  return `#/$defs/${`v${version}`.replace(/~/g, "~0").replace(/\//g, "~1")}`
+}
+
+/**
+ * Builds a JSON Schema document with the schema of each version under `$defs` (as `v1`, `v2`, ...)
+ * and a top-level `oneOf` referencing them, discriminated by the version field.
+ * @param versionMap The version map of the entity
+ * @param versions The versions of the entity, in order
+ * @param options Options to configure the bundle
+ */
+export function createJSONSchemaBundle(
+  versionMap: Record<VersionId, { schema: z.ZodTypeAny }>,
+  versions: VersionId[],
+  options: JSONSchemaBundleOptions = {}
+): JSONSchema {
+  const $defs: Record<string, JSONSchema> = {}
+
+  for (const version of versions) {
+    $defs[`v${version}`] = zodToJSONSchema(versionMap[version].schema)
+  }
+
+  const bundle: JSONSchema = {
+    $schema: JSON_SCHEMA_DIALECT,
+    $defs,
+    oneOf: versions.map((version) => ({ $ref: definitionRef(version) })),
+  }
+
+  const versionField =
+    options.versionField ?? detectVersionField(versionMap, versions)
+
+  if (versionField !== null) {
+    const mapping: Record<string, string> = {}
+
+    for (const version of versions) {
+      const literal = literalProperty(versionMap[version].schema, versionField)
+
+      if (literal) {
+        mapping[String(literal.value)] = definitionRef(version)
+      }
+    }
+
+    bundle.discriminator = { propertyName: versionField, mapping }
+  }
+
+  return bundle
+}
@@ -0,0 +1,182 @@
+import type { InferredEntity, ParseError, ParseOptions, VersionedEntity } from "./index.ts"
+
+/**
+ * Options accepted by `createEntityRegistry`.
+ */
+export type EntityRegistryOptions = {
+  /**
+   * The field of the data holding the kind of the entity, matched against the keys of the registry.
+   */
+  kindField: string
+}
+
+/**
+ * The error reported by the parse functions of an `EntityRegistry`.
+ */
+export type RegistryParseError =
+  | ParseError
+  | {
+      /**
+       * The kind field of the data is missing or does not match any entity of the registry.
+       */
+      type: "UNKNOWN_KIND"
+
+      /**
+       * The value of the kind field of the data (`undefined` if the field is missing).
+       */
+      kind: unknown
+    }
+
+/**
+ * The result of parsing data with an `EntityRegistry`. On success, the result is discriminated
+ * by the `kind` of the entity, narrowing the type of the migrated value.
+ */
+export type RegistryParseResult<Entities extends Record<string, VersionedEntity<any, any>>> =
+  | {
+      [Kind in keyof Entities & string]: {
+        type: "ok"
+
+        /**
+         * The kind of the entity the data was parsed as.
+         */
+        kind: Kind
+
+        /**
+         * The data, migrated to the latest version of the entity.
+         */
+        value: InferredEntity<Entities[Kind]>
+      }
+    }[keyof Entities & string]
+  | {
+      type: "err"
+
+      /**
+       * The kind of the entity the data was routed to, if the kind field matched one.
+       */
+      kind?: keyof Entities & string
+
+      /**
+       * The error reported by the entity, or `UNKNOWN_KIND`.
+       */
+      error: RegistryParseError
+    }
+
+/**
+ * A set of versioned entities, parsing data as the entity matching its kind field.
+ */
+export class EntityRegistry<Entities extends Record<string, VersionedEntity<any, any>>> {
+  constructor(
+    /**
+     * The entities of the registry, keyed by their kind.
+     */
+    public readonly entities: Entities,
+
+    /**
+     * The field of the data holding the kind of the entity.
+     */
+    public readonly kindField: string
+  ) {}
+
+  /**
+   * Returns the kind of the data, if its kind field matches an entity of the registry.
+   * @param data The data to get the kind of
+   * @returns The kind, or `null` if the kind field is missing or unknown
+   */
+  public getKind(data: unknown): (keyof Entities & string) | null {
+    if (typeof data !== "object" || data === null) return null
+
+    const kind = (data as Record<string, unknown>)[this.kindField]
+
+    return typeof kind === "string" && Object.prototype.hasOwnProperty.call(this.entities, kind) ? kind : null
+  }
+
+  /**
+   * Checks whether the data is a valid version of the entity matching its kind.
+   * @param data The data to check
+   */
+  public is(data: unknown): boolean {
+    const kind = this.getKind(data)
+
+    return kind !== null && this.entities[kind].is(data)
+  }
+
+  /**
+   * Parses (and if needed, migrates) the data as the entity matching its kind field.
+   * @param data The data to parse
+   * @param options Options to override the entities' defaults for this call
+   * @returns The kind and the migrated value, or an error (`UNKNOWN_KIND` if no entity matches the kind field)
+   *
+   * @example
+   * ```ts
+   * const registry = createEntityRegistry({ Environment, Collection }, { kindField: "kind" })
+   *
+   * const result = registry.safeParse(row)
+   *
+   * if (result.type === "ok" && result.kind === "Environment") {
+   *   result.value // InferredEntity<typeof Environment>
+   * }
+   * ```
+   */
+  public safeParse(data: unknown, options?: ParseOptions): RegistryParseResult<Entities> {
+    const kind = this.getKind(data)
+
+    if (kind === null) {
+      return { type: "err", error: this.unknownKind(data) }
+    }
+
+    const result = this.entities[kind].safeParse(data, options)
+
+    return result.type === "ok"
+      ? ({ type: "ok", kind, value: result.value } as RegistryParseResult<Entities>)
+      : { type: "err", kind, error: result.error }
+  }
+
+  /**
+   * Async version of `safeParse`, supporting entities with async migrations.
+   * @param data The data to parse
+   * @param options Options to override the entities' defaults for this call
+   * @returns A Promise resolving to the kind and the migrated value, or an error
+   */
+  public async safeParseAsync(data: unknown, options?: ParseOptions): Promise<RegistryParseResult<Entities>> {
+    const kind = this.getKind(data)
+
+    if (kind === null) {
+      return { type: "err", error: this.unknownKind(data) }
+    }
+
+    const result = await this.entities[kind].safeParseAsync(data, options)
+
+    return result.type === "ok"
+      ? ({ type: "ok", kind, value: result.value } as RegistryParseResult<Entities>)
+      : { type: "err", kind, error: result.error }
+  }
+
+  private unknownKind(data: unknown): RegistryParseError {
+    return {
+      type: "UNKNOWN_KIND",
+      kind: typeof data === "object" && data !== null ? (data as Record<string, unknown>)[this.kindField] : undefined,
+    }
+  }
+}
+
+/**
+ * Creates a registry of versioned entities, to parse data holding different entities
+ * (like the rows of a table storing several kinds of documents) as the entity matching its kind field.
+ *
+ * @param entities The entities of the registry, keyed by the value of the kind field
+ * @param options The options of the registry
+ *
+ * @example
+ * ```ts
+ * const registry = createEntityRegistry({ Environment, Collection }, { kindField: "kind" })
+ *
+ * registry.safeParse({ kind: "Environment", v: 1, ... }) // { type: "ok", kind: "Environment", value: <migrated environment> }
+ * registry.safeParse({ kind: "Unknown" }) // { type: "err", error: { type: "UNKNOWN_KIND", kind: "Unknown" } }
+ * ```
+ */
+export function createEntityRegistry<Entities extends Record<string, VersionedEntity<any, any>>>(
+  entities: Entities,
+  options: EntityRegistryOptions
+): EntityRegistry<Entities> {
+  return new EntityRegistry(entities, options.kindField)
+}
@@ -0,0 +1,174 @@
+import { z } from "zod"
+import type { VersionedEntity, VersionId } from "./index.ts"
+import { diffSchemas, formatSchemaChange, type SchemaChange } from "./schemaDiff.js"
+
+/**
+ * Options accepted by `scaffoldMigration`.
+ */
+export type ScaffoldOptions = {
+  /**
+   * The version of the new schema. Defaults to the latest version plus one,
+   * and has to be given for entities with non-numeric versions (like `"2023-10"`).
+   */
+  version?: VersionId
+
+  /**
+   * The identifier of the new schema in the generated code. Defaults to `v<version>_schema`.
+   */
+  schemaName?: string
+
+  /**
+   * The identifier of the schema of the latest version in the generated code. Defaults to `v<version>_schema`.
+   */
+  previousSchemaName?: string
+}
+
+/**
+ * Renders the default identifier of the schema of a version, like `v3_schema` or `v1_4_0_schema`.
+ */
+function defaultSchemaName(version: VersionId) {
+  return `v${String(version).replace(/[^\w$]/g, "_")}_schema`
+}
+
+/**
+ * Returns the value of a literal or default in the schema of a field, if the field has one that can be written as code.
+ */
+function knownValue(schema: z.ZodTypeAny): { code: string } | null {
+  while (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    schema = schema._def.innerType
+  }
+
+  const value =
+    schema instanceof z.ZodLiteral ? schema.value : schema instanceof z.ZodDefault ? schema._def.defaultValue() : undefined
+
+  const code = value === undefined ? undefined : JSON.stringify(value)
+
+  return code === undefined ? null : { code }
+}
+
+/**
+ * Renders a key of an object literal, quoting it if it is not a valid identifier.
+ */
+function formatKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+/**
+ * Renders an access to a field of the old data, like `old.name` or `old["display-name"]`.
+ */
+function formatAccess(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `old.${key}` : `old[${JSON.stringify(key)}]`
+}
+
+/**
+ * Renders a list of changes into a comment.
+ */
+function describeChanges(changes: SchemaChange[]) {
+  return changes.map((change) => formatSchemaChange(change).join(" ")).join("; ")
+}
+
+/**
+ * Renders the line of the returned object of the `up` function for a field of the new schema.
+ */
+function scaffoldField(key: string, schema: z.ZodTypeAny, changes: SchemaChange[]) {
+  const fieldChanges = changes.filter((change) => change.path[0] === key)
+
+  const rename = fieldChanges.find((change) => change.type === "RENAMED" && change.path.length === 1)
+
+  if (rename?.type === "RENAMED") {
+    return `${formatKey(key)}: ${formatAccess(rename.from[0])}, // TODO: check that ${key} was renamed from ${rename.from[0]}`
+  }
+
+  const added = fieldChanges.find((change) => change.type === "ADDED" && change.path.length === 1)
+
+  if (fieldChanges.length === 0) {
+    return `${formatKey(key)}: ${formatAccess(key)},`
+  }
+
+  const value = knownValue(schema)
+
+  // New fields and retyped literals (like the version field) are set to their literal or default value
+  if (value && (added || fieldChanges.every((change) => change.type === "RETYPED" && change.path.length === 1))) {
+    return `${formatKey(key)}: ${value.code},`
+  }
+
+  if (added?.type === "ADDED") {
+    return `${formatKey(key)}: undefined, // TODO: ${added.fieldType}${added.optional ? " (optional)" : ""}`
+  }
+
+  return `${formatKey(key)}: ${formatAccess(key)}, // TODO: ${describeChanges(fieldChanges)}`
+}
+
+/**
+ * Generates the code of a `defineVersion` block migrating the latest version of an entity to a new schema,
+ * ready to paste into the version map. Unchanged fields are carried over, new fields are filled from their
+ * literal or default value (or marked `TODO`) and removed fields are listed in a comment.
+ *
+ * @param entity The entity the new version is added to
+ * @param schema The Zod schema of the new version
+ * @param options Options to configure the generated code
+ *
+ * @example
+ * ```ts
+ * console.log(scaffoldMigration(Environment, Environment_V3, { schemaName: "Environment_V3", previousSchemaName: "Environment_V2" }))
+ * // 3: defineVersion({
+ * //   initial: false,
+ * //   schema: Environment_V3,
+ * //   up(old: z.infer<typeof Environment_V2>): z.infer<typeof Environment_V3> {
+ * //     // Removed fields: legacy (boolean)
+ * //     return {
+ * //       v: 3,
+ * //       name: old.name,
+ * //       variables: old.variables,
+ * //       archived: false,
+ * //       owner: undefined, // TODO: string
+ * //     }
+ * //   },
+ * // }),
+ * ```
+ */
+export function scaffoldMigration<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  schema: z.ZodTypeAny,
+  options: ScaffoldOptions = {}
+): string {
+  if (options.version === undefined && typeof entity.latestVersion !== "number") {
+    throw new Error(`The version of the new schema has to be given, the latest version (${entity.latestVersion}) is not a number`)
+  }
+
+  const version: VersionId = options.version ?? entity.latestVersion + 1
+
+  const schemaName = options.schemaName ?? defaultSchemaName(version)
+  const previousSchemaName = options.previousSchemaName ?? defaultSchemaName(entity.latestVersion)
+
+  const changes = diffSchemas(entity.getSchema(entity.latestVersion), schema)
+
+  let body: string[]
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>
+
+    const removed = changes.flatMap((change) =>
+      change.type === "REMOVED" && change.path.length === 1 ? [`${change.path[0]} (${change.fieldType})`] : []
+    )
+
+    body = [
+      ...(removed.length > 0 ? [`// Removed fields: ${removed.join(", ")}`] : []),
+      "return {",
+      ...Object.entries(shape).map(([key, field]) => `  ${scaffoldField(key, field, changes)}`),
+      "}",
+    ]
+  } else {
+    body = [`// TODO: ${changes.length > 0 ? describeChanges(changes) : "migrate the data"}`, "return old"]
+  }
+
+  return [
+    `${typeof version === "number" ? version : JSON.stringify(version)}: defineVersion({`,
+    "  initial: false,",
+    `  schema: ${schemaName},`,
+    `  up(old: z.infer<typeof ${previousSchemaName}>): z.infer<typeof ${schemaName}> {`,
+    ...body.map((line) => `    ${line}`),
+    "  },",
+    "}),",
+  ].join("\n")
+}
@@ -0,0 +1,355 @@
+import { z } from "zod"
+import type { KnownEntityVersion, VersionedEntity, VersionId } from "./index.ts"
+import { zodToJSONSchema } from "./jsonSchema.js"
+
+/**
+ * A structural change of a field between two schemas, as reported by `diffVersions`.
+ */
+export type SchemaChange = {
+  /**
+   * The path of the field in the newer schema (in the older schema for removed fields).
+   * Array elements are represented by a `"[]"` segment, the root by an empty path.
+   */
+  path: string[]
+} & (
+  | {
+      /**
+       * The field was added in the newer schema.
+       */
+      type: "ADDED"
+
+      /**
+       * The type of the added field, see `describeZodType`.
+       */
+      fieldType: string
+
+      /**
+       * Whether the added field is optional.
+       */
+      optional: boolean
+    }
+  | {
+      /**
+       * The field was removed in the newer schema.
+       */
+      type: "REMOVED"
+
+      /**
+       * The type of the removed field, see `describeZodType`.
+       */
+      fieldType: string
+    }
+  | {
+      /**
+       * A field was removed and a field with the exact same schema was added in the same object,
+       * which looks like a rename.
+       */
+      type: "RENAMED"
+
+      /**
+       * The path of the field in the older schema.
+       */
+      from: string[]
+
+      /**
+       * The type of the renamed field, see `describeZodType`.
+       */
+      fieldType: string
+    }
+  | {
+      /**
+       * The type of the field changed.
+       */
+      type: "RETYPED"
+
+      /**
+       * The type of the field in the older schema, see `describeZodType`.
+       */
+      before: string
+
+      /**
+       * The type of the field in the newer schema, see `describeZodType`.
+       */
+      after: string
+    }
+  | {
+      /**
+       * The field became optional or required.
+       */
+      type: "OPTIONALITY_CHANGED"
+
+      /**
+       * Whether the field is optional in the newer schema.
+       */
+      optional: boolean
+    }
+)
+
+/**
+ * The structural differences between the schemas of two versions of an entity, as returned by `diffVersions`.
+ */
+export type VersionDiff = {
+  /**
+   * The older version compared.
+   */
+  from: VersionId
+
+  /**
+   * The newer version compared.
+   */
+  to: VersionId
+
+  /**
+   * The changes from the schema of `from` to the schema of `to`.
+   */
+  changes: SchemaChange[]
+}
+
+/**
+ * Returns the schema describing the shape of the data, looking through optionality, defaults,
+ * refinements, transforms and wrappers.
+ */
+function innerSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  if (
+    schema instanceof z.ZodOptional ||
+    schema instanceof z.ZodDefault ||
+    schema instanceof z.ZodCatch ||
+    schema instanceof z.ZodReadonly
+  ) {
+    return innerSchema(schema._def.innerType)
+  }
+
+  if (schema instanceof z.ZodEffects) return innerSchema(schema._def.schema)
+  if (schema instanceof z.ZodBranded) return innerSchema(schema._def.type)
+  if (schema instanceof z.ZodPipeline) return innerSchema(schema._def.in)
+
+  return schema
+}
+
+/**
+ * Renders the type of a Zod schema in a TypeScript-like notation, like `string`, `number[]` or `"a" | "b"`.
+ * Objects are rendered as `object`, their fields are compared separately.
+ * @param schema The Zod schema to describe
+ */
+export function describeZodType(schema: z.ZodTypeAny): string {
+  const inner = innerSchema(schema)
+
+  if (inner instanceof z.ZodNumber) return inner.isInt ? "integer" : "number"
+  if (inner instanceof z.ZodLiteral) {
+    return typeof inner.value === "string" ? JSON.stringify(inner.value) : String(inner.value)
+  }
+  if (inner instanceof z.ZodEnum) return inner.options.map((option: string) => JSON.stringify(option)).join(" | ")
+  if (inner instanceof z.ZodNullable) return `${describeZodType(inner._def.innerType)} | null`
+
+  if (inner instanceof z.ZodArray) {
+    const element = describeZodType(inner._def.type)
+
+    return /[ |&]/.test(element) ? `(${element})[]` : `${element}[]`
+  }
+
+  if (inner instanceof z.ZodTuple) {
+    return `[${(inner.items as z.ZodTypeAny[]).map(describeZodType).join(", ")}]`
+  }
+
+  if (inner instanceof z.ZodRecord) return `Record<string, ${describeZodType(inner._def.valueType)}>`
+  if (inner instanceof z.ZodSet) return `Set<${describeZodType(inner._def.valueType)}>`
+
+  if (inner instanceof z.ZodUnion || inner instanceof z.ZodDiscriminatedUnion) {
+    return Array.from(inner.options as Iterable<z.ZodTypeAny>, describeZodType).join(" | ")
+  }
+
+  if (inner instanceof z.ZodIntersection) {
+    return `${describeZodType(inner._def.left)} & ${describeZodType(inner._def.right)}`
+  }
+
+  // ZodString -> string, ZodNativeEnum -> nativeenum, ...
+  return String(inner._def.typeName).replace(/^Zod/, "").toLowerCase()
+}
+
+/**
+ * Returns a key identifying the exact schema of a field, used to match renamed fields.
+ */
+function schemaSignature(schema: z.ZodTypeAny) {
+  return `${schema.isOptional()}:${JSON.stringify(zodToJSONSchema(schema))}`
+}
+
+function diffObjects(before: z.AnyZodObject, after: z.AnyZodObject, path: string[], changes: SchemaChange[]) {
+  const beforeShape = before.shape as Record<string, z.ZodTypeAny>
+  const afterShape = after.shape as Record<string, z.ZodTypeAny>
+
+  const removed = Object.keys(beforeShape).filter((key) => !(key in afterShape))
+  const added = Object.keys(afterShape).filter((key) => !(key in beforeShape))
+
+  for (const key of Object.keys(afterShape)) {
+    if (!(key in beforeShape)) continue
+
+    const optional = afterShape[key].isOptional()
+
+    if (beforeShape[key].isOptional() !== optional) {
+      changes.push({ type: "OPTIONALITY_CHANGED", path: [...path, key], optional })
+    }
+
+    diffSchemasAt(beforeShape[key], afterShape[key], [...path, key], changes)
+  }
+
+  const renamedTo = new Map<string, string>()
+
+  for (const from of removed) {
+    const signature = schemaSignature(beforeShape[from])
+
+    const to = added.find((key) => !renamedTo.has(key) && schemaSignature(afterShape[key]) === signature)
+
+    if (to !== undefined) {
+      renamedTo.set(to, from)
+      changes.push({
+        type: "RENAMED",
+        path: [...path, to],
+        from: [...path, from],
+        fieldType: describeZodType(afterShape[to]),
+      })
+    }
+  }
+
+  const renamedFrom = new Set(renamedTo.values())
+
+  for (const key of removed) {
+    if (!renamedFrom.has(key)) {
+      changes.push({ type: "REMOVED", path: [...path, key], fieldType: describeZodType(beforeShape[key]) })
+    }
+  }
+
+  for (const key of added) {
+    if (!renamedTo.has(key)) {
+      changes.push({
+        type: "ADDED",
+        path: [...path, key],
+        fieldType: describeZodType(afterShape[key]),
+        optional: afterShape[key].isOptional(),
+      })
+    }
+  }
+}
+
+function diffSchemasAt(before: z.ZodTypeAny, after: z.ZodTypeAny, path: string[], changes: SchemaChange[]) {
+  const beforeInner = innerSchema(before)
+  const afterInner = innerSchema(after)
+
+  if (beforeInner instanceof z.ZodObject && afterInner instanceof z.ZodObject) {
+    return diffObjects(beforeInner, afterInner, path, changes)
+  }
+
+  // Compare the fields of arrays of objects, instead of reporting the arrays as retyped
+  if (beforeInner instanceof z.ZodArray && afterInner instanceof z.ZodArray) {
+    const beforeElement = innerSchema(beforeInner._def.type)
+    const afterElement = innerSchema(afterInner._def.type)
+
+    if (beforeElement instanceof z.ZodObject && afterElement instanceof z.ZodObject) {
+      return diffObjects(beforeElement, afterElement, [...path, "[]"], changes)
+    }
+  }
+
+  const beforeType = describeZodType(before)
+  const afterType = describeZodType(after)
+
+  if (beforeType !== afterType) {
+    changes.push({ type: "RETYPED", path, before: beforeType, after: afterType })
+  }
+}
+
+/**
+ * Compares two Zod schemas structurally, reporting the added, removed, renamed-looking, retyped
+ * and optionality-changed fields.
+ * @param before The older schema
+ * @param after The newer schema
+ */
+export function diffSchemas(before: z.ZodTypeAny, after: z.ZodTypeAny): SchemaChange[] {
+  const changes: SchemaChange[] = []
+
+  diffSchemasAt(before, after, [], changes)
+
+  return changes
+}
+
+/**
+ * Compares the schemas of two versions of an entity structurally, reporting the added, removed,
+ * renamed-looking, retyped and optionality-changed fields with their paths.
+ * Refinements, transforms and constraints (like `.min()`) are not compared.
+ *
+ * @param entity The entity whose versions are compared
+ * @param from The older version
+ * @param to The newer version
+ *
+ * @example
+ * ```ts
+ * const diff = diffVersions(Environment, 1, 2)
+ * // { from: 1, to: 2, changes: [{ type: "ADDED", path: ["variables", "[]", "masked"], fieldType: "boolean", optional: false }, ...] }
+ *
+ * console.log(summarizeVersionDiff(diff))
+ * ```
+ */
+export function diffVersions<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  from: KnownEntityVersion<Entity> & VersionId,
+  to: KnownEntityVersion<Entity> & VersionId
+): VersionDiff {
+  return { from, to, changes: diffSchemas(entity.getSchema(from), entity.getSchema(to)) }
+}
+
+/**
+ * Renders a path of a `SchemaChange`, like `variables[].masked`.
+ */
+function formatPath(path: string[]) {
+  if (path.length === 0) return "(root)"
+
+  return path.reduce((result, segment) =>
+    segment === "[]" ? `${result}[]` : result === "" ? segment : `${result}.${segment}`
+  , "")
+}
+
+/**
+ * Renders a change into its kind and a description, like `["added", "variables[].masked: boolean"]`.
+ * @param change The change to render
+ */
+export function formatSchemaChange(change: SchemaChange): [kind: string, description: string] {
+  const path = formatPath(change.path)
+
+  switch (change.type) {
+    case "ADDED":
+      return ["added", `${path}: ${change.fieldType}${change.optional ? " (optional)" : ""}`]
+    case "REMOVED":
+      return ["removed", `${path}: ${change.fieldType}`]
+    case "RENAMED":
+      return ["renamed", `${formatPath(change.from)} -> ${path} (${change.fieldType})`]
+    case "RETYPED":
+      return ["retyped", `${path}: ${change.before} -> ${change.after}`]
+    case "OPTIONALITY_CHANGED":
+      return ["optionality", `${path}: ${change.optional ? "required -> optional" : "optional -> required"}`]
+  }
+}
+
+/**
+ * Renders a version diff into a human-readable summary, one line per change.
+ * @param diff The diff to render
+ *
+ * @example
+ * ```ts
+ * console.log(summarizeVersionDiff(diffVersions(Environment, 1, 2)))
+ * // v1 -> v2: 3 changes
+ * //   retyped      v: 1 -> 2
+ * //   renamed      name -> title (string)
+ * //   added        variables[].masked: boolean
+ * ```
+ */
+export function summarizeVersionDiff(diff: VersionDiff): string {
+  const header = `v${diff.from} -> v${diff.to}: ${
+    diff.changes.length === 0 ? "no changes" : `${diff.changes.length} change${diff.changes.length === 1 ? "" : "s"}`
+  }`
+
+  const lines = diff.changes.map((change) => {
+    const [kind, description] = formatSchemaChange(change)
+
+    return `  ${kind.padEnd(11)}  ${description}`
+  })
+
+  return [header, ...lines].join("\n")
+}
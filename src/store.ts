@@ -0,0 +1,343 @@
+import { VerzodError } from "./errors.js"
+import type { InferredEntity, ParseError, ParseOptions, ParseResult, VersionedEntity } from "./index.ts"
+
+/**
+ * The key-value storage a `VersionedStore` reads from and writes to, like `localStorage` or a file.
+ * The methods may return Promises.
+ */
+export type StoreAdapter = {
+  /**
+   * Returns the value stored under the key, `undefined` if there is none.
+   */
+  get(key: string): unknown | Promise<unknown>
+
+  /**
+   * Stores the value under the key, replacing the previous value.
+   */
+  set(key: string, value: unknown): void | Promise<void>
+
+  /**
+   * Removes the value stored under the key, if any.
+   */
+  delete(key: string): void | Promise<void>
+
+  /**
+   * Returns the keys that have a value stored.
+   */
+  keys(): string[] | Promise<string[]>
+}
+
+/**
+ * Options accepted by `createVersionedStore`.
+ */
+export type VersionedStoreOptions<Field extends string = string> = ParseOptions & {
+  /**
+   * When data read from an older version is written back to the adapter, migrated to the latest version:
+   * - `"auto"` writes it back as soon as it is read with `get`
+   * - `"manual"` only writes it back with `migrate` and `migrateAll`
+   *
+   * Defaults to `"auto"`.
+   */
+  writeBack?: "auto" | "manual"
+
+  /**
+   * The field holding the version of the entity. If given, the values passed to `set`
+   * are stamped with the latest version in this field before being validated and stored.
+   */
+  versionField?: Field
+}
+
+/**
+ * The values accepted by `VersionedStore.set`: the latest version of the entity,
+ * without the version field if the store stamps it (`versionField`).
+ */
+export type StoreInput<Entity extends VersionedEntity<any, any>, Field extends string = never> = [Field] extends [never]
+  ? InferredEntity<Entity>
+  : InferredEntity<Entity> extends infer Value
+    ? Value extends unknown
+      ? Omit<Value, Field>
+      : never
+    : never
+
+/**
+ * The result of `VersionedStore.migrateAll`.
+ */
+export type StoreMigrationReport = {
+  /**
+   * The keys whose data was migrated and written back.
+   */
+  migrated: string[]
+
+  /**
+   * The keys whose data was already on the latest version.
+   */
+  alreadyLatest: string[]
+
+  /**
+   * The keys whose data could not be parsed, with the error. Their data is left untouched.
+   */
+  failed: Array<{ key: string; error: ParseError }>
+}
+
+/**
+ * A key-value store of a versioned entity, returning the values migrated to the latest version
+ * and writing the migrated data back to the adapter.
+ */
+export class VersionedStore<Entity extends VersionedEntity<any, any>, Field extends string = never> {
+  constructor(
+    /**
+     * The entity of the values of the store.
+     */
+    public readonly entity: Entity,
+
+    /**
+     * The storage the store reads from and writes to.
+     */
+    public readonly adapter: StoreAdapter,
+
+    private options: VersionedStoreOptions<Field> = {}
+  ) {}
+
+  /**
+   * Reads the value stored under the key, migrated to the latest version of the entity.
+   * With `writeBack: "auto"`, data of an older version is written back migrated.
+   * @param key The key to read
+   * @returns The result of parsing the stored data, or `undefined` if there is no value under the key
+   */
+  public async safeGet(key: string): Promise<ParseResult<InferredEntity<Entity>> | undefined> {
+    const { result } = (await this.read(key, this.options.writeBack !== "manual")) ?? {}
+
+    return result
+  }
+
+  /**
+   * Reads the value stored under the key, like `safeGet`, but returns the value directly and throws on failure.
+   * @param key The key to read
+   * @returns The value migrated to the latest version, or `undefined` if there is no value under the key
+   * @throws {VerzodError} If the stored data could not be parsed
+   */
+  public async get(key: string): Promise<InferredEntity<Entity> | undefined> {
+    const result = await this.safeGet(key)
+
+    if (result?.type === "err") {
+      throw new VerzodError(result.error)
+    }
+
+    return result?.value
+  }
+
+  /**
+   * Validates the value (stamped with the latest version if `versionField` is set) and stores it under the key.
+   * @param key The key to store the value under
+   * @param value The value, on the latest version of the entity (the version field can be left out if `versionField` is set)
+   * @throws {VerzodError} If the value is not valid for the latest version of the entity
+   */
+  public async set(key: string, value: StoreInput<Entity, Field>): Promise<void> {
+    const data = this.stamp(value)
+
+    const result = await this.entity.safeParseAsync(data, this.options)
+
+    if (result.type === "err") {
+      throw new VerzodError(result.error)
+    }
+
+    // Older versions would parse as well, but are not what the store hands out
+    if (this.entity.getVersion(data) !== this.entity.latestVersion) {
+      throw new VerzodError({ type: "INVALID_VER" })
+    }
+
+    await this.adapter.set(key, data)
+  }
+
+  /**
+   * Removes the value stored under the key.
+   * @param key The key to remove
+   */
+  public async delete(key: string): Promise<void> {
+    await this.adapter.delete(key)
+  }
+
+  /**
+   * Returns the keys of the store.
+   */
+  public async keys(): Promise<string[]> {
+    return this.adapter.keys()
+  }
+
+  /**
+   * Reads the value stored under the key and writes it back if it was migrated, regardless of `writeBack`.
+   * @param key The key to migrate
+   * @returns The result of parsing the stored data, or `undefined` if there is no value under the key
+   */
+  public async migrate(key: string): Promise<ParseResult<InferredEntity<Entity>> | undefined> {
+    const { result } = (await this.read(key, true)) ?? {}
+
+    return result
+  }
+
+  /**
+   * Migrates the data of every key of the store to the latest version, writing back the migrated data.
+   * Data that fails to parse is left untouched and reported.
+   *
+   * @example
+   * ```ts
+   * const report = await store.migrateAll()
+   * // { migrated: ["a", "c"], alreadyLatest: ["b"], failed: [{ key: "d", error: { type: "INVALID_VER" } }] }
+   * ```
+   */
+  public async migrateAll(): Promise<StoreMigrationReport> {
+    const report: StoreMigrationReport = { migrated: [], alreadyLatest: [], failed: [] }
+
+    for (const key of await this.adapter.keys()) {
+      const read = await this.read(key, true)
+
+      if (!read) continue
+
+      if (read.result.type === "err") {
+        report.failed.push({ key, error: read.result.error })
+      } else if (read.migrated) {
+        report.migrated.push(key)
+      } else {
+        report.alreadyLatest.push(key)
+      }
+    }
+
+    return report
+  }
+
+  /**
+   * Reads and parses the data stored under the key, writing it back if it was migrated and `writeBack` is set.
+   */
+  private async read(
+    key: string,
+    writeBack: boolean
+  ): Promise<{ result: ParseResult<InferredEntity<Entity>>; migrated: boolean } | undefined> {
+    const data = await this.adapter.get(key)
+
+    if (data === undefined) return undefined
+
+    const result = await this.entity.safeParseAsync(data, this.options)
+
+    const migrated = result.type === "ok" && this.entity.getVersion(data) !== this.entity.latestVersion
+
+    if (migrated && writeBack) {
+      await this.adapter.set(key, result.value)
+    }
+
+    return { result, migrated }
+  }
+
+  /**
+   * Sets the version field of the value to the latest version, if the store has one.
+   */
+  private stamp(value: StoreInput<Entity, Field>): unknown {
+    const { versionField } = this.options
+
+    if (versionField === undefined || typeof value !== "object" || value === null) return value
+
+    return { ...value, [versionField]: this.entity.latestVersion }
+  }
+}
+
+/**
+ * Creates a store keeping the data of an entity in the given adapter, so reading returns the latest version
+ * and migrated data is written back, instead of repeating "read, parse, write back if migrated" at every call site.
+ *
+ * @param entity The entity of the values of the store
+ * @param adapter The storage to read from and write to (like `createMemoryAdapter()` or `createJSONFileAdapter(path)`)
+ * @param options When to write back migrated data, how to stamp stored values, and options to override the entity's defaults
+ *
+ * @example
+ * ```ts
+ * const store = createVersionedStore(Environment, createJSONFileAdapter("environments.json"), { versionField: "v" })
+ *
+ * await store.get("dev") // Migrated to the latest version (and written back)
+ * await store.set("prod", { name: "prod", variables: [] }) // Stored with `v` set to the latest version
+ * ```
+ */
+export function createVersionedStore<Entity extends VersionedEntity<any, any>, Field extends string = never>(
+  entity: Entity,
+  adapter: StoreAdapter,
+  options?: VersionedStoreOptions<Field>
+): VersionedStore<Entity, Field> {
+  return new VersionedStore(entity, adapter, options)
+}
+
+/**
+ * Creates an adapter keeping the values in memory, for tests and caches.
+ * @param initial The values the adapter starts with
+ */
+export function createMemoryAdapter(initial: Record<string, unknown> = {}): StoreAdapter {
+  const values = new Map(Object.entries(initial))
+
+  return {
+    get: (key) => values.get(key),
+    set: (key, value) => {
+      values.set(key, value)
+    },
+    delete: (key) => {
+      values.delete(key)
+    },
+    keys: () => [...values.keys()],
+  }
+}
+
+/**
+ * Creates an adapter keeping the values in a JSON file, as an object of the values by key.
+ * The file is read on first use (a missing file is an empty store) and rewritten after every change.
+ * Only available on Node.js.
+ * @param path The path of the JSON file
+ */
+export function createJSONFileAdapter(path: string): StoreAdapter {
+  let values: Promise<Record<string, unknown>> | undefined
+  let writing = Promise.resolve()
+
+  // Imported on use, so the main entry stays usable outside of Node.js
+  const fs = () => import("node:fs/promises")
+
+  // The values are kept in an object without prototype, so keys like `__proto__` are stored like any other key
+  const readValues = async (): Promise<Record<string, unknown>> => {
+    const { readFile } = await fs()
+
+    try {
+      return Object.assign(Object.create(null), JSON.parse(await readFile(path, "utf-8")))
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return Object.create(null)
+      throw e
+    }
+  }
+
+  // A failed read is not cached, so the file is read again on next use
+  const load = () =>
+    (values ??= readValues().catch((e) => {
+      values = undefined
+      throw e
+    }))
+
+  const save = async (update: (values: Record<string, unknown>) => void) => {
+    const current = await load()
+
+    update(current)
+
+    const text = `${JSON.stringify(current, null, 2)}\n`
+
+    // Writes are chained so they land in order
+    writing = writing.catch(() => {}).then(async () => {
+      const { writeFile } = await fs()
+      await writeFile(path, text)
+    })
+
+    await writing
+  }
+
+  return {
+    get: async (key) => {
+      const current = await load()
+
+      return Object.prototype.hasOwnProperty.call(current, key) ? current[key] : undefined
+    },
+    set: (key, value) => save((current) => (current[key] = value)),
+    delete: (key) => save((current) => delete current[key]),
+    keys: async () => Object.keys(await load()),
+  }
+}
@@ -0,0 +1,143 @@
+import type { Version, VersionId } from "./index.ts"
+
+/**
+ * A function that determines the version of the given data, as accepted by `createVersionedEntity`'s `getVersion`.
+ * Returns `null` if the version could not be determined.
+ */
+export type VersionStrategy = (data: unknown) => VersionId | null
+
+/**
+ * Options for the field based version strategies (`versionField`, `versionAtPath`)
+ */
+export type VersionFieldOptions = {
+  /**
+   * Whether string versions (like `"2"` or `"v2"`) should be accepted and parsed into numbers.
+   * Defaults to `false`, in which case only number versions are accepted.
+   */
+  parseStrings?: boolean
+}
+
+/**
+ * Parses a version given as a string into a number.
+ * Accepts plain integers (`"2"`) and integers prefixed with `v` (`"v2"`, `"V2"`).
+ * @param value The string to parse
+ * @returns The parsed version, or `null` if the string is not a valid version
+ */
+export function parseVersionString(value: string): number | null {
+  const match = /^\s*v?(\d+)\s*$/i.exec(value)
+
+  if (!match) return null
+
+  return parseInt(match[1], 10)
+}
+
+/**
+ * Creates a version strategy that reads the version from the value at the given path in the data.
+ * This also covers envelope formats where the version lives next to (or above) the payload,
+ * like `{ meta: { schemaVersion: 2 }, payload: { ... } }`.
+ *
+ * @param path The keys to follow from the root of the data to the version value
+ * @param options How the value at the path should be interpreted
+ *
+ * @example
+ * ```ts
+ * const Environment = createVersionedEntity({
+ *   latestVersion: 2,
+ *   versionMap: { ... },
+ *   getVersion: versionAtPath(["meta", "schemaVersion"])
+ * })
+ * ```
+ */
+export function versionAtPath(
+  path: ReadonlyArray<string | number>,
+  options: VersionFieldOptions = {}
+): VersionStrategy {
+  return (data) => {
+    let value: unknown = data
+
+    for (const key of path) {
+      if (typeof value !== "object" || value === null) return null
+
+      value = (value as Record<string | number, unknown>)[key]
+    }
+
+    if (typeof value === "number") {
+      return Number.isInteger(value) ? value : null
+    }
+
+    if (typeof value === "string" && options.parseStrings) {
+      return parseVersionString(value)
+    }
+
+    return null
+  }
+}
+
+/**
+ * Creates a version strategy that reads the version from a top-level field of the data.
+ *
+ * @param field The name of the field holding the version
+ * @param options How the value of the field should be interpreted
+ *
+ * @example
+ * ```ts
+ * const Environment = createVersionedEntity({
+ *   latestVersion: 2,
+ *   versionMap: { ... },
+ *   getVersion: versionField("v")
+ * })
+ * ```
+ */
+export function versionField(field: string, options: VersionFieldOptions = {}): VersionStrategy {
+  return versionAtPath([field], options)
+}
+
+/**
+ * Creates a version strategy that infers the version by validating the data against the schema
+ * of each version, from the newest to the oldest. The first version whose schema accepts the data wins.
+ * This is useful for legacy data that does not carry a version marker at all.
+ *
+ * NOTE: This runs the schema validation of every version until one matches, so it is slower
+ * than reading a version field. Make sure the schemas of the versions do not overlap,
+ * as the newest matching version is picked.
+ *
+ * @param versionMap The version map of the entity
+ * @param versions The versions of the entity in order, for entities with non-numeric versions
+ *                 (the same list given to the `versions` option of `createVersionedEntity`)
+ *
+ * @example
+ * ```ts
+ * const versionMap = {
+ *   1: defineVersion({ initial: true, schema: Legacy_V1 }),
+ *   2: defineVersion({ initial: false, schema: Legacy_V2, up(old) { ... } })
+ * }
+ *
+ * const Legacy = createVersionedEntity({
+ *   latestVersion: 2,
+ *   versionMap,
+ *   getVersion: probeSchemas(versionMap)
+ * })
+ * ```
+ */
+export function probeSchemas(
+  versionMap: Record<VersionId, Version<any, any>>,
+  versions?: readonly VersionId[]
+): VersionStrategy {
+  const newestFirst = versions
+    ? [...versions].reverse()
+    : Object.keys(versionMap)
+        .map((key) => Number(key))
+        .sort((a, b) => b - a)
+
+  return (data) => {
+    for (const version of newestFirst) {
+      if (!Object.prototype.hasOwnProperty.call(versionMap, version)) continue
+
+      if (versionMap[version].schema.safeParse(data).success) {
+        return version
+      }
+    }
+
+    return null
+  }
+}
@@ -0,0 +1,206 @@
+import { VerzodError } from "./errors.js"
+import type { InferredEntity, ParseError, ParseOptions, VersionedEntity } from "./index.ts"
+
+/**
+ * A line of the input that could not be migrated by `migrateStream`.
+ */
+export type StreamFailure = {
+  /**
+   * The line number of the failing line in the input (starting at 1).
+   */
+  line: number
+
+  /**
+   * The text of the failing line.
+   */
+  text: string
+} & (
+  | {
+      /**
+       * The line is not valid JSON.
+       */
+      type: "INVALID_JSON"
+
+      /**
+       * The error thrown by `JSON.parse`.
+       */
+      error: unknown
+    }
+  | {
+      /**
+       * The line is valid JSON, but could not be parsed as the entity.
+       */
+      type: "PARSE_FAIL"
+
+      /**
+       * The error as reported in the `ParseResult` of `safeParse`.
+       */
+      error: ParseError
+    }
+)
+
+/**
+ * Options accepted by `migrateStream`.
+ */
+export type MigrateStreamOptions = ParseOptions & {
+  /**
+   * Where the lines that could not be migrated are routed to, either a `WritableStream`
+   * (whose backpressure is respected, closed when the input ends and aborted when the stream is errored or canceled)
+   * or a function (which is awaited if it returns a Promise).
+   * If not given, the first failure errors the stream.
+   */
+  errors?: WritableStream<StreamFailure> | ((failure: StreamFailure) => void | Promise<void>)
+}
+
+/**
+ * Creates a transform stream (a `writable` and `readable` pair, for `pipeThrough`) that migrates NDJSON (JSON Lines) input to the latest version of the entity.
+ * Each line is parsed as JSON and migrated with `safeParseAsync`, and the migrated records are emitted as objects.
+ * Empty lines are skipped. The input can be text or bytes (decoded as UTF-8), split into chunks at any point.
+ *
+ * @param entity The entity the records of the input are of
+ * @param options Options to override the entity's defaults and to route the failures
+ *
+ * @example
+ * ```ts
+ * const failures: StreamFailure[] = []
+ *
+ * await response.body
+ *   .pipeThrough(migrateStream(Environment, { errors: (failure) => failures.push(failure) }))
+ *   .pipeThrough(stringifyNDJSON())
+ *   .pipeTo(output)
+ * ```
+ *
+ * With Node streams, convert with `Readable.toWeb`/`Writable.toWeb` or `Duplex.fromWeb`:
+ * ```ts
+ * await Readable.toWeb(fs.createReadStream("backup.ndjson"))
+ *   .pipeThrough(migrateStream(Environment))
+ *   .pipeThrough(stringifyNDJSON())
+ *   .pipeTo(Writable.toWeb(fs.createWriteStream("migrated.ndjson")))
+ * ```
+ */
+export function migrateStream<Entity extends VersionedEntity<any, any>>(
+  entity: Entity,
+  options: MigrateStreamOptions = {}
+): ReadableWritablePair<InferredEntity<Entity>, string | Uint8Array> {
+  const decoder = new TextDecoder()
+  const errorsWriter = options.errors instanceof WritableStream ? options.errors.getWriter() : null
+
+  let buffered = ""
+  let lineNumber = 0
+
+  const reportFailure = async (failure: StreamFailure) => {
+    if (errorsWriter) {
+      await errorsWriter.ready
+      await errorsWriter.write(failure)
+    } else if (typeof options.errors === "function") {
+      await options.errors(failure)
+    } else {
+      // Rejecting the transform errors the stream
+      throw failure.type === "PARSE_FAIL"
+        ? new VerzodError(failure.error)
+        : new SyntaxError(`Invalid JSON on line ${failure.line}`)
+    }
+  }
+
+  const processLine = async (
+    text: string,
+    controller: TransformStreamDefaultController<InferredEntity<Entity>>
+  ) => {
+    lineNumber++
+
+    if (text.trim() === "") return
+
+    let data: unknown
+
+    try {
+      data = JSON.parse(text)
+    } catch (e) {
+      return reportFailure({ type: "INVALID_JSON", line: lineNumber, text, error: e })
+    }
+
+    const result = await entity.safeParseAsync(data, options)
+
+    if (result.type === "err") {
+      return reportFailure({ type: "PARSE_FAIL", line: lineNumber, text, error: result.error })
+    }
+
+    controller.enqueue(result.value)
+  }
+
+  const transform = new TransformStream<string | Uint8Array, InferredEntity<Entity>>({
+    async transform(chunk, controller) {
+      buffered += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true })
+
+      const lines = buffered.split(/\r?\n/)
+      buffered = lines.pop()!
+
+      for (const line of lines) {
+        await processLine(line, controller)
+      }
+    },
+
+    async flush(controller) {
+      buffered += decoder.decode()
+
+      if (buffered !== "") {
+        await processLine(buffered, controller)
+      }
+
+      if (errorsWriter) {
+        await errorsWriter.close()
+        errorsWriter.releaseLock()
+      }
+    },
+  })
+
+  // Aborts the error sink when the source errors or the consumer cancels, so it does not wait for a close forever
+  const abortErrors = async (reason: unknown) => {
+    if (errorsWriter) {
+      await errorsWriter.abort(reason).catch(() => {})
+      errorsWriter.releaseLock()
+    }
+  }
+
+  // The sides of the transform are wrapped as `Transformer.cancel` is not called by every runtime (like Node.js 18)
+  const writer = transform.writable.getWriter()
+  const reader = transform.readable.getReader()
+
+  return {
+    writable: new WritableStream({
+      write: (chunk) => writer.write(chunk),
+      close: () => writer.close(),
+      async abort(reason) {
+        await abortErrors(reason)
+        await writer.abort(reason)
+      },
+    }),
+
+    readable: new ReadableStream({
+      async pull(controller) {
+        const { done, value } = await reader.read()
+
+        if (done) {
+          controller.close()
+        } else {
+          controller.enqueue(value)
+        }
+      },
+      async cancel(reason) {
+        await abortErrors(reason)
+        await reader.cancel(reason)
+      },
+    }),
+  }
+}
+
+/**
+ * Creates a `TransformStream` that serializes each value into a line of NDJSON (JSON Lines).
+ * Useful to write the output of `migrateStream` back to a file.
+ */
+export function stringifyNDJSON<T>(): TransformStream<T, string> {
+  return new TransformStream({
+    transform(chunk, controller) {
+      controller.enqueue(`${JSON.stringify(chunk)}\n`)
+    },
+  })
+}
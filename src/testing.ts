@@ -0,0 +1,183 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs"
+import { basename, join } from "node:path"
+import { describe, expect, it } from "vitest"
+import type { ParseError, ParseResult, VersionedEntity, VersionId } from "./index.ts"
+
+/**
+ * Fixtures for `testMigrations`.
+ */
+export type MigrationFixtures = {
+  /**
+   * The input fixtures for each version, keyed by version and then by fixture name.
+   */
+  inputs: Record<VersionId, Record<string, unknown>>
+
+  /**
+   * The expected latest version output for each fixture name.
+   * Inputs of every version with the same fixture name are expected to migrate to this output.
+   */
+  expected: Record<string, unknown>
+}
+
+/**
+ * The custom matchers registered by `verzod/testing`.
+ */
+interface VerzodMatchers<R = unknown> {
+  /**
+   * Asserts that the data parses with `entity.safeParseAsync` and migrates to the expected latest version value.
+   * Async, as entities can have async migrations: the assertion has to be awaited.
+   */
+  toMigrateTo: (entity: VersionedEntity<any, any>, expected: unknown) => Promise<R>
+
+  /**
+   * Asserts that the `ParseResult` is an error of the given type.
+   */
+  toFailWith: (type: ParseError["type"]) => R
+}
+
+declare module "vitest" {
+  interface Matchers<T = any> extends VerzodMatchers<T> {}
+}
+
+/**
+ * The custom matchers of `verzod/testing`. These are registered with `expect.extend`
+ * when `verzod/testing` is imported, and are exported for use with other `expect` instances.
+ */
+export const verzodMatchers: Parameters<typeof expect.extend>[0] = {
+  async toMigrateTo(received: unknown, entity: VersionedEntity<any, any>, expected: unknown) {
+    const result = await entity.safeParseAsync(received)
+
+    if (result.type === "err") {
+      return {
+        pass: false,
+        message: () =>
+          `expected ${this.utils.printReceived(received)} to migrate, but it failed with ${result.error.type}`,
+      }
+    }
+
+    const pass = this.equals(result.value, expected)
+
+    return {
+      pass,
+      actual: result.value,
+      expected,
+      message: () =>
+        pass
+          ? `expected ${this.utils.printReceived(received)} not to migrate to ${this.utils.printExpected(expected)}`
+          : `expected ${this.utils.printReceived(received)} to migrate to ${this.utils.printExpected(expected)}\n\n${this.utils.diff(expected, result.value)}`,
+    }
+  },
+
+  toFailWith(received: ParseResult<unknown>, type: ParseError["type"]) {
+    const actualType = received.type === "err" ? received.error.type : null
+
+    return {
+      pass: actualType === type,
+      message: () =>
+        actualType === type
+          ? `expected the parse not to fail with ${type}`
+          : actualType === null
+            ? `expected the parse to fail with ${type}, but it succeeded`
+            : `expected the parse to fail with ${type}, but it failed with ${actualType}`,
+    }
+  },
+}
+
+expect.extend(verzodMatchers)
+
+/**
+ * Returns the version a fixtures folder holds the inputs of, `undefined` if the folder is not a version folder.
+ */
+function versionOfFolder(name: string, versions: readonly VersionId[] | undefined): VersionId | undefined {
+  if (!versions) {
+    const match = /^v?(\d+)$/.exec(name)
+
+    return match ? parseInt(match[1], 10) : undefined
+  }
+
+  return versions.find((ver) => name === String(ver)) ?? versions.find((ver) => name === `v${ver}`)
+}
+
+/**
+ * Loads migration fixtures from a directory, for use with `testMigrations`.
+ *
+ * The directory is expected to contain a folder per version (`v1`, `v2`, ... or `1`, `2`, ...)
+ * holding the input fixtures as JSON files, and an `expected` folder holding the expected latest version
+ * output for each fixture name.
+ *
+ * ```
+ * fixtures/
+ *   v1/basic.json
+ *   v2/basic.json
+ *   expected/basic.json
+ * ```
+ *
+ * Without `versions`, only folders named by integer versions are loaded. Entities with non-numeric versions
+ * pass their versions (like `entity.versions`) to load the folders named by them (`2023-01` or `v2023-01`).
+ *
+ * @param dir The path to the fixtures directory
+ * @param versions The versions of the entity, to load the folders of non-numeric versions
+ */
+export function loadFixtures(dir: string, versions?: readonly VersionId[]): MigrationFixtures {
+  const readJSONFiles = (folder: string) => {
+    const files: Record<string, unknown> = {}
+
+    for (const file of readdirSync(folder)) {
+      if (!file.endsWith(".json")) continue
+
+      files[basename(file, ".json")] = JSON.parse(readFileSync(join(folder, file), "utf-8"))
+    }
+
+    return files
+  }
+
+  const fixtures: MigrationFixtures = { inputs: {}, expected: {} }
+
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue
+
+    const version = versionOfFolder(entry.name, versions)
+
+    if (version !== undefined) {
+      fixtures.inputs[version] = readJSONFiles(join(dir, entry.name))
+    }
+  }
+
+  if (existsSync(join(dir, "expected"))) {
+    fixtures.expected = readJSONFiles(join(dir, "expected"))
+  }
+
+  return fixtures
+}
+
+/**
+ * Registers a Vitest test for every input fixture, checking that the version of the fixture
+ * is detected correctly and that it migrates to the expected latest version output.
+ * Must be called while collecting tests (at the top level of a test file or inside a `describe`).
+ *
+ * @param entity The entity to test
+ * @param fixtures The fixtures, given inline or loaded with `loadFixtures`
+ *
+ * @example
+ * ```ts
+ * describe("Environment", () => {
+ *   testMigrations(Environment, loadFixtures("./fixtures/environment"))
+ * })
+ * ```
+ */
+export function testMigrations(entity: VersionedEntity<any, any>, fixtures: MigrationFixtures) {
+  for (const [version, inputs] of Object.entries(fixtures.inputs)) {
+    describe(`v${version}`, () => {
+      for (const [name, input] of Object.entries(inputs)) {
+        it(`migrates "${name}" to the latest version`, async () => {
+          if (!(name in fixtures.expected)) {
+            throw new Error(`No expected output defined for the fixture "${name}"`)
+          }
+
+          expect(String(entity.getVersion(input)), "detected version").toBe(version)
+          await expect(input).toMigrateTo(entity, fixtures.expected[name])
+        })
+      }
+    })
+  }
+}
@@ -0,0 +1,181 @@
+import type { ParseResult, VersionId } from "./index.ts"
+
+/**
+ * A single structural change between two values, as reported in a `MigrationStep`.
+ */
+export type ValueChange =
+  | {
+      /**
+       * A key (or array element) that is only present in the new value.
+       */
+      type: "added"
+
+      /**
+       * The path to the key from the root of the value.
+       */
+      path: Array<string | number>
+
+      /**
+       * The added value.
+       */
+      after: unknown
+    }
+  | {
+      /**
+       * A key (or array element) that is only present in the old value.
+       */
+      type: "removed"
+
+      /**
+       * The path to the key from the root of the value.
+       */
+      path: Array<string | number>
+
+      /**
+       * The removed value.
+       */
+      before: unknown
+    }
+  | {
+      /**
+       * A value that is present in both but differs (including type changes).
+       */
+      type: "changed"
+
+      /**
+       * The path to the value from the root of the value.
+       */
+      path: Array<string | number>
+
+      /**
+       * The value in the old value.
+       */
+      before: unknown
+
+      /**
+       * The value in the new value.
+       */
+      after: unknown
+    }
+
+/**
+ * A migration step applied while parsing the data in `explain`.
+ */
+export type MigrationStep = {
+  /**
+   * The version of the data given to the migration function.
+   */
+  fromVersion: VersionId
+
+  /**
+   * The version the migration function migrated to.
+   */
+  toVersion: VersionId
+
+  /**
+   * Whether the step took a shortcut of the entity, skipping the versions between `fromVersion` and `toVersion`.
+   */
+  shortcut: boolean
+
+  /**
+   * The data given to the migration function.
+   */
+  input: unknown
+
+  /**
+   * The data returned by the migration function (before being validated against the schema of `toVersion`).
+   */
+  output: unknown
+
+  /**
+   * The structural changes between `input` and `output`.
+   */
+  changes: ValueChange[]
+}
+
+/**
+ * The result of `VersionedEntity.explain`, describing how the data was parsed and migrated.
+ */
+export type MigrationTrace<T> = {
+  /**
+   * The version of the data as determined by the entity definition, `null` if it could not be determined.
+   */
+  sourceVersion: VersionId | null
+
+  /**
+   * The version the data was migrated to.
+   */
+  targetVersion: VersionId
+
+  /**
+   * The migration steps that were applied, in order.
+   * If the parse failed in the middle of the chain, the steps up to the failing one are included.
+   */
+  steps: MigrationStep[]
+
+  /**
+   * The same result `safeParse` would have returned.
+   */
+  result: ParseResult<T>
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false
+
+  const proto = Object.getPrototypeOf(value)
+
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Computes the structural changes between two values, recursing into plain objects and arrays.
+ * Other values (including class instances like `Date`) are compared by identity.
+ * @param before The old value
+ * @param after The new value
+ * @param path The path of the values from the root (used while recursing)
+ */
+export function diffValues(
+  before: unknown,
+  after: unknown,
+  path: Array<string | number> = []
+): ValueChange[] {
+  if (Object.is(before, after)) return []
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    const changes: ValueChange[] = []
+
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      if (i >= after.length) {
+        changes.push({ type: "removed", path: [...path, i], before: before[i] })
+      } else if (i >= before.length) {
+        changes.push({ type: "added", path: [...path, i], after: after[i] })
+      } else {
+        changes.push(...diffValues(before[i], after[i], [...path, i]))
+      }
+    }
+
+    return changes
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const changes: ValueChange[] = []
+
+    for (const key of Object.keys(before)) {
+      if (!(key in after)) {
+        changes.push({ type: "removed", path: [...path, key], before: before[key] })
+      } else {
+        changes.push(...diffValues(before[key], after[key], [...path, key]))
+      }
+    }
+
+    for (const key of Object.keys(after)) {
+      if (!(key in before)) {
+        changes.push({ type: "added", path: [...path, key], after: after[key] })
+      }
+    }
+
+    return changes
+  }
+
+  return [{ type: "changed", path, before, after }]
+}
@@ -38,11 +38,46 @@ type IsLessOrEqual<A extends number, B extends number> =
     : false
 
 /**
- * Filters a union of numbers to only include values less than or equal to N.
+ * Filters a union of number literals to only include values less than or equal to N.
+ * Non-literal numbers (like the index signature of a version map) are dropped.
+ */
+type NumbersUpTo<T, N extends number> = T extends number
+  ? number extends T
+    ? never
+    : IsLessOrEqual<T, N> extends true
+      ? T
+      : never
+  : never
+
+/**
+ * Collects the entries of an ordered tuple of versions, up to and including N.
+ *
+ * @template Order - The ordered tuple of versions
+ * @template N - The last version (inclusive) to collect
+ * @returns A union of the versions of Order up to N, or `never` if N is not in Order
+ *
+ * @example
+ * ```ts
+ * type UpToB = VersionsUpToInOrder<["a", "b", "c"], "b">  // "a" | "b"
+ * ```
+ */
+type VersionsUpToInOrder<Order extends readonly unknown[], N, Acc = never> = Order extends readonly [
+  infer Head,
+  ...infer Rest,
+]
+  ? Head extends N
+    ? Acc | Head
+    : VersionsUpToInOrder<Rest, N, Acc | Head>
+  : never
+
+/**
+ * Filters a union of versions to only include the versions up to N (inclusive).
+ * Numbers are compared numerically, unless an explicit Order of the versions is given.
  * 
- * @template T - A union type of numbers to filter
- * @template N - The maximum value (inclusive) to include in the result
- * @returns A union containing only the numbers from T that are ≤ N
+ * @template T - A union type of versions to filter
+ * @template N - The maximum version (inclusive) to include in the result
+ * @template Order - The ordered tuple of versions, if the entity defines one
+ * @returns A union containing only the versions from T that are up to N
  * 
  * @example
  * ```ts
@@ -50,10 +85,10 @@ type IsLessOrEqual<A extends number, B extends number> =
  * type UpTo4 = VersionsUpTo<Numbers, 4>  // 1 | 2 | 3 | 4
  * type UpTo2 = VersionsUpTo<Numbers, 2>  // 1 | 2
  * type UpTo0 = VersionsUpTo<Numbers, 0>  // never
+ *
+ * type Months = "2023-01" | "2023-06" | "2023-10"
+ * type UpToJune = VersionsUpTo<Months, "2023-06", ["2023-01", "2023-06", "2023-10"]>  // "2023-01" | "2023-06"
  * ```
  */
-export type VersionsUpTo<T, N extends number> = T extends number
-  ? IsLessOrEqual<T, N> extends true
-    ? T
-    : never
-  : never
+export type VersionsUpTo<T, N extends string | number, Order extends readonly (string | number)[] = []> =
+  Order extends readonly [] ? NumbersUpTo<T, N & number> : Extract<T, VersionsUpToInOrder<Order, N>>